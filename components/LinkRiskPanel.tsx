@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ShieldAlert } from 'lucide-react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import type { LinkRiskReport } from '../lib/linkRisk';
+
+interface LinkRiskPanelProps {
+  report?: LinkRiskReport | null;
+}
+
+const MAX_FINDINGS = 3;
+
+const TITLES = {
+  high: 'Dangerous links',
+  medium: 'Suspicious links',
+  low: 'Link notice',
+};
+
+export default function LinkRiskPanel({ report }: LinkRiskPanelProps) {
+  const { colors } = useTheme();
+
+  if (!report || report.riskLevel === 'none') {
+    return null;
+  }
+
+  const color =
+    report.riskLevel === 'high' ? colors.error : report.riskLevel === 'medium' ? colors.warning : colors.textSecondary;
+
+  // The summary already names the worst finding
+  const findings = Array.from(
+    new Set(report.links.flatMap((link) => link.flags.map((flag) => flag.description)))
+  )
+    .filter((description) => description !== report.summary)
+    .slice(0, MAX_FINDINGS - 1);
+
+  return (
+    <View style={[styles.container, { backgroundColor: color + '20', borderColor: color }]}>
+      <ShieldAlert size={16} color={color} />
+      <View style={styles.textContainer}>
+        <Text style={[styles.title, { color }]}>
+          {TITLES[report.riskLevel]} • risk {report.score}/100
+        </Text>
+        <Text style={[styles.text, { color: colors.text }]}>{report.summary}</Text>
+        {findings.map((description) => (
+          <Text key={description} style={[styles.text, { color: colors.textSecondary }]}>
+            • {description}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 8,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 2,
+  },
+  text: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+});
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, Pressable, TextInput, ScrollView, Alert } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { QrCode, Copy, Share, Download } from 'lucide-react-native';
+import { CURRENT_CANONICALIZATION_VERSION, canonicalizeMessage } from '@/lib/canonical';
 
 interface QRGeneratorProps {
   onGenerate?: (qrData: string) => void;
@@ -10,9 +11,11 @@ interface QRGeneratorProps {
 export default function QRGenerator({ onGenerate }: QRGeneratorProps) {
   const { colors } = useTheme();
   const [qrType, setQrType] = useState<'message' | 'organization' | 'contact' | 'transaction'>('message');
+  const [messageMode, setMessageMode] = useState<'text' | 'eip712'>('text');
   const [formData, setFormData] = useState({
     // Message verification
     message: '',
+    typedData: '',
     signature: '',
     sender: '',
     organizationName: '',
@@ -45,9 +48,40 @@ export default function QRGenerator({ onGenerate }: QRGeneratorProps) {
 
     switch (qrType) {
       case 'message':
+        if (messageMode === 'eip712') {
+          let typedData;
+          try {
+            typedData = JSON.parse(formData.typedData);
+          } catch {
+            Alert.alert('Invalid Typed Data', 'Typed data must be valid JSON with domain, types and message');
+            return;
+          }
+          if (!typedData.domain || !typedData.types || !typedData.message) {
+            Alert.alert('Invalid Typed Data', 'Typed data must include domain, types and message');
+            return;
+          }
+          qrData = {
+            type: 'web3_message',
+            mode: 'eip712',
+            typedData: {
+              domain: typedData.domain,
+              types: typedData.types,
+              primaryType: typedData.primaryType,
+              message: typedData.message,
+            },
+            signature: formData.signature,
+            sender: formData.sender,
+            organizationName: formData.organizationName,
+            timestamp: Date.now(),
+            version: '1.1'
+          };
+          break;
+        }
+        // The signature must cover the canonical form, which is what the QR carries
         qrData = {
           type: 'web3_message',
-          message: formData.message,
+          message: canonicalizeMessage(formData.message, CURRENT_CANONICALIZATION_VERSION),
+          canonicalization: CURRENT_CANONICALIZATION_VERSION,
           signature: formData.signature,
           sender: formData.sender,
           organizationName: formData.organizationName,
@@ -126,6 +160,26 @@ export default function QRGenerator({ onGenerate }: QRGeneratorProps) {
     </Pressable>
   );
 
+  const ModeButton = ({ mode, label }: { mode: typeof messageMode; label: string }) => (
+    <Pressable
+      style={[
+        styles.typeButton,
+        {
+          backgroundColor: messageMode === mode ? colors.primary : colors.surface,
+          borderColor: messageMode === mode ? colors.primary : colors.border,
+        }
+      ]}
+      onPress={() => setMessageMode(mode)}
+    >
+      <Text style={[
+        styles.typeButtonText,
+        { color: messageMode === mode ? 'white' : colors.text }
+      ]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
   const InputField = ({ 
     label, 
     value, 
@@ -176,13 +230,27 @@ export default function QRGenerator({ onGenerate }: QRGeneratorProps) {
       <ScrollView style={styles.formContainer} showsVerticalScrollIndicator={false}>
         {qrType === 'message' && (
           <>
-            <InputField
-              label="Message Content"
-              value={formData.message}
-              onChangeText={(text) => updateFormData('message', text)}
-              placeholder="Enter the message to be verified"
-              multiline
-            />
+            <View style={styles.modeSelector}>
+              <ModeButton mode="text" label="Plain Text" />
+              <ModeButton mode="eip712" label="EIP-712 Typed Data" />
+            </View>
+            {messageMode === 'text' ? (
+              <InputField
+                label="Message Content"
+                value={formData.message}
+                onChangeText={(text) => updateFormData('message', text)}
+                placeholder="Enter the message to be verified"
+                multiline
+              />
+            ) : (
+              <InputField
+                label="Typed Data (JSON)"
+                value={formData.typedData}
+                onChangeText={(text) => updateFormData('typedData', text)}
+                placeholder='{"domain": {...}, "types": {...}, "primaryType": "Notice", "message": {...}}'
+                multiline
+              />
+            )}
             <InputField
               label="Signature"
               value={formData.signature}
@@ -352,6 +420,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-Medium',
   },
+  modeSelector: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
   formContainer: {
     flex: 1,
   },
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MessageSquare } from 'lucide-react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  getOrganizationSenderIds,
+  requestSenderIdChallenge,
+  type OrganizationSenderId,
+} from '../lib/supabase';
+import { normalizeSenderId } from '../lib/senderId';
+
+interface SenderIdPanelProps {
+  organizationId: string;
+}
+
+const STATUS_LABELS: Record<OrganizationSenderId['verification_status'], string> = {
+  verified: 'Verified',
+  pending: 'Awaiting code',
+  revoked: 'Revoked',
+};
+
+const INBOUND_NUMBER = process.env.EXPO_PUBLIC_SMS_INBOUND_NUMBER;
+
+export default function SenderIdPanel({ organizationId }: SenderIdPanelProps) {
+  const { colors } = useTheme();
+  const [senderIds, setSenderIds] = useState<OrganizationSenderId[]>([]);
+  const [input, setInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [registering, setRegistering] = useState(false);
+
+  const loadSenderIds = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await getOrganizationSenderIds(organizationId);
+    if (error) {
+      console.error('Error loading sender IDs:', error);
+    }
+    setSenderIds(data || []);
+    setLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadSenderIds();
+  }, [loadSenderIds]);
+
+  // Registering, or re-registering a pending sender ID, issues a fresh code
+  const register = async (raw: string) => {
+    const senderId = normalizeSenderId(raw);
+    if (!senderId) {
+      Alert.alert('Invalid sender ID', 'Enter a phone number, short code or alphanumeric sender ID');
+      return;
+    }
+
+    setRegistering(true);
+    try {
+      const { data, error } = await requestSenderIdChallenge(organizationId, senderId);
+      if (error || !data) {
+        Alert.alert('Error', error?.message || 'Failed to start sender ID verification');
+        return;
+      }
+
+      setInput('');
+      Alert.alert(
+        'Confirm sender ID',
+        `Send "VERIFY ${data.challenge_code}" from ${data.sender_id} to ${
+          INBOUND_NUMBER || 'the SigText inbound number'
+        } before ${new Date(data.challenge_expires_at).toLocaleTimeString()}.`
+      );
+      await loadSenderIds();
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const statusColor = (status: OrganizationSenderId['verification_status']) =>
+    status === 'verified' ? colors.success : status === 'pending' ? colors.warning : colors.error;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface }]}>
+      <View style={styles.header}>
+        <MessageSquare size={16} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>SMS Sender IDs</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.primary} />
+      ) : senderIds.length === 0 ? (
+        <Text style={[styles.text, { color: colors.textSecondary }]}>
+          No sender IDs yet. Signed SMS from unregistered senders are not attributed to this organization.
+        </Text>
+      ) : (
+        senderIds.map((entry) => (
+          <View key={entry.id} style={styles.row}>
+            <Text style={[styles.senderId, { color: colors.text }]}>{entry.sender_id}</Text>
+            {entry.verification_status === 'pending' ? (
+              <Pressable onPress={() => register(entry.sender_id)} disabled={registering}>
+                <Text style={[styles.status, { color: colors.primary }]}>New code</Text>
+              </Pressable>
+            ) : null}
+            <Text style={[styles.status, { color: statusColor(entry.verification_status) }]}>
+              {STATUS_LABELS[entry.verification_status]}
+            </Text>
+          </View>
+        ))
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          placeholder="+15550123456, 72345 or BANKNAME"
+          placeholderTextColor={colors.textSecondary}
+          value={input}
+          onChangeText={setInput}
+          autoCapitalize="characters"
+        />
+        <Pressable
+          style={[styles.button, { backgroundColor: colors.primary }]}
+          onPress={() => register(input)}
+          disabled={registering || !input.trim()}
+        >
+          {registering ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.buttonText}>Register</Text>
+          )}
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  text: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  senderId: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  status: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
@@ -7,7 +7,9 @@ import {
   getOrganizations,
   verifyMessage 
 } from '@/lib/supabase';
-import { Database, TestTube, Users, CircleCheck as CheckCircle, CircleAlert as AlertCircle } from 'lucide-react-native';
+import { DIGEST_TEST_VECTORS, runDigestSelfTest } from '@/lib/digest';
+import { runContractWalletSelfTest } from '@/services/BlockchainService';
+import { Database, TestTube, Users, Hash, Wallet, CircleCheck as CheckCircle, CircleAlert as AlertCircle } from 'lucide-react-native';
 
 export default function SupabaseTestPanel() {
   const { colors } = useTheme();
@@ -55,6 +57,29 @@ export default function SupabaseTestPanel() {
     return result;
   };
 
+  // Known-answer vectors for every digest algorithm on this device's runtime
+  const testDigestVectors = async () => {
+    const { passed, failures } = runDigestSelfTest();
+    if (!passed) {
+      throw new Error(
+        `${failures.length}/${DIGEST_TEST_VECTORS.length} digest vectors failed: ` +
+          failures.map((failure) => `${failure.algorithm}("${failure.input}")`).join(', ')
+      );
+    }
+    return { message: `All ${DIGEST_TEST_VECTORS.length} digest vectors match` };
+  };
+
+  // EIP-1271 contract wallet checks against a local JSON-RPC stand-in
+  const testContractWallet = async () => {
+    const { passed, failures } = await runContractWalletSelfTest();
+    if (!passed) {
+      throw new Error(
+        'EIP-1271 checks failed: ' + failures.map((failure) => failure.name).join(', ')
+      );
+    }
+    return { message: 'Contract wallet accepts its owner and rejects other signers' };
+  };
+
   const clearResults = () => {
     setResults([]);
   };
@@ -98,6 +123,18 @@ export default function SupabaseTestPanel() {
           onPress={() => runTest('Single Verification', testSingleVerification)}
           icon={<CheckCircle size={20} color="white" />}
         />
+
+        <TestButton
+          title="Digest Vectors"
+          onPress={() => runTest('Digest Known Answers', testDigestVectors)}
+          icon={<Hash size={20} color="white" />}
+        />
+
+        <TestButton
+          title="EIP-1271 Stand-in"
+          onPress={() => runTest('Contract Wallet Signatures', testContractWallet)}
+          icon={<Wallet size={20} color="white" />}
+        />
       </View>
 
       <View style={styles.resultsHeader}>
@@ -5,6 +5,8 @@ import { supabaseVerificationService } from "../services/SupabaseVerificationSer
 import { getVerifiedMessages, subscribeToVerifiedMessages, addSampleMessages } from "../lib/supabase"
 import { Platform } from "react-native"
 import { dataSyncService } from "../services/DataSyncService"
+import { smsService, type ParsedSMS } from "../services/SMSService"
+import { notificationService } from "../services/NotificationService"
 
 // Safe locale detection for web platform
 const getDeviceLocale = () => {
@@ -37,6 +39,7 @@ interface Message {
     did?: string
     transactionHash?: string
     organizationInfo?: any
+    sender_check?: any
   }
 }
 
@@ -50,7 +53,7 @@ interface VerificationContextType {
   setOfflineMode: (enabled: boolean) => void
   refreshMessages: () => Promise<void>
   processSMSMessage: (messageText: string, sender?: string) => Promise<any>
-  verifyQRMessage: (qrData: string) => Promise<boolean>
+  verifyQRMessage: (qrData: string) => Promise<any>
   getVerificationHistory: () => Promise<any[]>
   isLoading: boolean
   error: string | null
@@ -85,8 +88,25 @@ export function VerificationProvider({ children }: { children: React.ReactNode }
     // Get initial sync status
     dataSyncService.getSyncStatus().then(setSyncStatus)
 
+    // Verify incoming SMS as they arrive; demo messages are left to callers
+    // that ask for them
+    let stopMonitoring = () => { }
+    let unmounted = false
+    smsService.setupSMSMonitoring(handleIncomingSMS, { allowDemo: false }).then((monitoring) => {
+      if (!monitoring.success) {
+        console.log("SMS monitoring inactive:", monitoring.message)
+      }
+      if (unmounted) {
+        monitoring.stop()
+      } else {
+        stopMonitoring = monitoring.stop
+      }
+    })
+
     return () => {
       dataSyncService.stopAutoSync()
+      unmounted = true
+      stopMonitoring()
     }
   }, [])
 
@@ -220,12 +240,13 @@ export function VerificationProvider({ children }: { children: React.ReactNode }
         verificationDetails: verificationResult.verificationDetails,
       }
 
-      // Add to local state
-      const updatedMessages = [newMessage, ...messages]
-      setMessages(updatedMessages)
-
-      // Save to local storage
-      await AsyncStorage.setItem("messages", JSON.stringify(updatedMessages))
+      // Add to local state and storage. Functional update, since the live
+      // SMS listener adds messages concurrently
+      setMessages((prevMessages) => {
+        const updatedMessages = [newMessage, ...prevMessages]
+        AsyncStorage.setItem("messages", JSON.stringify(updatedMessages))
+        return updatedMessages
+      })
 
       return verificationResult
     } catch (error) {
@@ -237,7 +258,43 @@ export function VerificationProvider({ children }: { children: React.ReactNode }
     }
   }
 
-  const verifyQRMessage = async (qrData: string): Promise<boolean> => {
+  // Messages without a signature block are not stored or announced
+  const handleIncomingSMS = async (sms: ParsedSMS) => {
+    if (!sms.signature) {
+      return
+    }
+
+    try {
+      const verificationResult = await supabaseVerificationService.verifySMSMessage(
+        sms.originalMessage,
+        sms.sender || undefined,
+      )
+
+      await addMessage({
+        content: sms.extractedContent,
+        signature: sms.signature,
+        verified: verificationResult.isValid,
+        sender: sms.sender || undefined,
+        type: "SMS",
+        organizationId: verificationResult.organizationId,
+        organizationName: verificationResult.organizationName,
+        verificationDetails: verificationResult.verificationDetails,
+      })
+
+      await notificationService.notifyVerificationResult({
+        verified: verificationResult.isValid,
+        unexpectedSender: verificationResult.senderStatus === "unexpected_sender",
+        sender: sms.sender,
+        organizationName: verificationResult.organizationName,
+        content: sms.extractedContent,
+        message: verificationResult.message,
+      })
+    } catch (error) {
+      console.error("Error handling incoming SMS:", error)
+    }
+  }
+
+  const verifyQRMessage = async (qrData: string): Promise<any> => {
     try {
       setIsLoading(true)
       setError(null)
@@ -249,11 +306,11 @@ export function VerificationProvider({ children }: { children: React.ReactNode }
         await refreshMessages() // Refresh to get the latest data
       }
 
-      return verificationResult.isValid
+      return verificationResult
     } catch (error) {
       console.error("Error verifying QR message:", error)
       setError("Failed to verify QR message")
-      return false
+      return { isValid: false, error: "Failed to verify QR message" }
     } finally {
       setIsLoading(false)
     }
@@ -267,10 +324,13 @@ export function VerificationProvider({ children }: { children: React.ReactNode }
         timestamp: Date.now(),
       }
 
-      const updatedMessages = [newMessage, ...messages]
-      setMessages(updatedMessages)
-
-      await AsyncStorage.setItem("messages", JSON.stringify(updatedMessages))
+      // Functional update, since incoming SMS are added from a listener set
+      // up on mount
+      setMessages((prevMessages) => {
+        const updatedMessages = [newMessage, ...prevMessages]
+        AsyncStorage.setItem("messages", JSON.stringify(updatedMessages))
+        return updatedMessages
+      })
 
       // If message has signature and verification is pending, verify it
       if (messageData.signature && messageData.verified === null) {
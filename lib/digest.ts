@@ -0,0 +1,115 @@
+import { keccak256, sha256, getBytes, toUtf8Bytes } from 'ethers';
+import { sha512_256 } from 'js-sha512';
+
+// Shared message digests. Every service hashes through this module so that
+// the hex strings stored in `verified_messages.message_hash` match what the
+// `verify_message_signature` SQL function computes with digest(..., 'sha256').
+
+export type DigestAlgorithm = 'sha256' | 'keccak256' | 'sha512_256';
+
+export const DEFAULT_MESSAGE_DIGEST: DigestAlgorithm = 'sha256';
+
+/**
+ * Digest raw bytes with the given algorithm
+ */
+export const digestBytes = (
+  data: Uint8Array,
+  algorithm: DigestAlgorithm = DEFAULT_MESSAGE_DIGEST
+): Uint8Array => {
+  switch (algorithm) {
+    case 'sha256':
+      return getBytes(sha256(data));
+    case 'keccak256':
+      return getBytes(keccak256(data));
+    case 'sha512_256':
+      return new Uint8Array(sha512_256.array(data));
+    default:
+      throw new Error(`Unsupported digest algorithm: ${algorithm}`);
+  }
+};
+
+/**
+ * Digest the UTF-8 encoding of a string, returned as lowercase hex without a
+ * 0x prefix (the same form Postgres produces with encode(..., 'hex'))
+ */
+export const digestHex = (
+  message: string,
+  algorithm: DigestAlgorithm = DEFAULT_MESSAGE_DIGEST
+): string => bytesToHex(digestBytes(toUtf8Bytes(message), algorithm));
+
+/**
+ * Hash of message content as stored in `verified_messages.message_hash`
+ */
+export const hashMessageContent = (message: string): string =>
+  digestHex(message, DEFAULT_MESSAGE_DIGEST);
+
+export const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Known-answer vectors (FIPS 180-4 / Keccak reference) for each algorithm
+export const DIGEST_TEST_VECTORS: Array<{
+  algorithm: DigestAlgorithm;
+  input: string;
+  expected: string;
+}> = [
+  {
+    algorithm: 'sha256',
+    input: '',
+    expected:
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+  },
+  {
+    algorithm: 'sha256',
+    input: 'abc',
+    expected:
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+  },
+  {
+    algorithm: 'keccak256',
+    input: '',
+    expected:
+      'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470',
+  },
+  {
+    algorithm: 'keccak256',
+    input: 'abc',
+    expected:
+      '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45',
+  },
+  {
+    algorithm: 'sha512_256',
+    input: '',
+    expected:
+      'c672b8d1ef56ed28ab87c3622c5114069bdd3ad7b8f9737498d0c01ecef0967a',
+  },
+  {
+    algorithm: 'sha512_256',
+    input: 'abc',
+    expected:
+      '53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23',
+  },
+];
+
+/**
+ * Run the known-answer vectors and report any algorithm that disagrees,
+ * e.g. when a platform polyfill is misbehaving. Run from the test panel's
+ * Digest Vectors button.
+ */
+export const runDigestSelfTest = (): {
+  passed: boolean;
+  failures: Array<{
+    algorithm: DigestAlgorithm;
+    input: string;
+    actual: string;
+  }>;
+} => {
+  const failures = DIGEST_TEST_VECTORS.filter(
+    (vector) => digestHex(vector.input, vector.algorithm) !== vector.expected
+  ).map((vector) => ({
+    algorithm: vector.algorithm,
+    input: vector.input,
+    actual: digestHex(vector.input, vector.algorithm),
+  }));
+
+  return { passed: failures.length === 0, failures };
+};
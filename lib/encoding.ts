@@ -0,0 +1,48 @@
+import { decodeBase58, decodeBase64, getBytes, toBeArray } from 'ethers';
+
+// Byte encodings shared by the verification services
+
+/**
+ * Decode base58btc to bytes, keeping leading zero bytes ("1" characters)
+ * that a plain big-integer conversion would drop
+ */
+export const base58ToBytes = (value: string): Uint8Array => {
+  const zeros = value.match(/^1*/)![0].length;
+  const rest = value.slice(zeros);
+  const body = rest.length > 0 ? toBeArray(decodeBase58(rest)) : [];
+  const bytes = new Uint8Array(zeros + body.length);
+  bytes.set(body, zeros);
+  return bytes;
+};
+
+/**
+ * Decode a hex (optionally 0x-prefixed), base64 or base64url string to bytes.
+ * Hex wins when a string is valid in both alphabets.
+ */
+export const decodeFlexibleBytes = (value: string): Uint8Array | null => {
+  const trimmed = value.trim();
+  const hex = trimmed.replace(/^0x/i, '');
+
+  if (hex.length > 0 && hex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(hex)) {
+    return getBytes('0x' + hex);
+  }
+
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) {
+    try {
+      return base64ToBytes(trimmed);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Decode standard or URL-safe base64, with or without padding
+ */
+export const base64ToBytes = (value: string): Uint8Array => {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=');
+  return decodeBase64(padded);
+};
@@ -0,0 +1,488 @@
+// Link risk analysis for message text, signed or not. Links are compared
+// with the domains of registered organizations to catch lookalikes:
+//
+//   homoglyph          cryptosecure.tech with Cyrillic letters, or
+//                      crypt0secure.tech
+//   typosquat          cryptosecur.tech, cyrptosecure.tech
+//   tld_swap           cryptosecure.com for cryptosecure.tech
+//   combosquat         cryptosecure-login.com
+//   brand_in_subdomain cryptosecure.tech.account-check.ru
+//
+// URL shorteners, raw IP hosts, punycode and credentials before the host
+// are flagged whatever the organization.
+
+export type LinkRiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export type LinkRiskFlagType =
+  | 'homoglyph'
+  | 'typosquat'
+  | 'tld_swap'
+  | 'combosquat'
+  | 'brand_in_subdomain'
+  | 'url_shortener'
+  | 'raw_ip'
+  | 'punycode'
+  | 'credentials_in_url'
+  | 'insecure_http';
+
+export interface LinkRiskFlag {
+  type: LinkRiskFlagType;
+  severity: Exclude<LinkRiskLevel, 'none'>;
+  description: string;
+  organizationName?: string; // organization being imitated
+}
+
+export interface LinkFinding {
+  url: string; // as written in the message
+  host: string;
+  registrableDomain: string;
+  isEmail: boolean;
+  // Organization whose own domain this is
+  officialOrganization?: string;
+  flags: LinkRiskFlag[];
+}
+
+export interface LinkRiskReport {
+  riskLevel: LinkRiskLevel;
+  score: number; // 0-100
+  links: LinkFinding[];
+  summary: string;
+}
+
+export interface LinkRiskOrganization {
+  name: string;
+  domain?: string | null;
+  website_url?: string | null;
+}
+
+const SEVERITY_WEIGHTS: Record<LinkRiskFlag['severity'], number> = {
+  low: 10,
+  medium: 30,
+  high: 60,
+};
+
+const URL_SHORTENERS = new Set([
+  'bit.ly',
+  'bit.do',
+  'buff.ly',
+  'cutt.ly',
+  'goo.gl',
+  'is.gd',
+  'ow.ly',
+  'rb.gy',
+  'rebrand.ly',
+  's.id',
+  'shorturl.at',
+  't.co',
+  't.ly',
+  'tiny.cc',
+  'tinyurl.com',
+  'v.gd',
+]);
+
+// Public suffixes with two labels, so that example.co.uk registers as a
+// whole rather than as co.uk
+const TWO_LABEL_SUFFIXES = new Set([
+  'ac.uk',
+  'co.in',
+  'co.jp',
+  'co.nz',
+  'co.uk',
+  'co.za',
+  'com.au',
+  'com.br',
+  'com.cn',
+  'com.mx',
+  'com.sg',
+  'gov.uk',
+  'net.au',
+  'org.au',
+  'org.uk',
+]);
+
+// Generic top-level domains recognised without a scheme or www. prefix;
+// two-letter country codes always are. Keeps "balance.Ref" from being
+// read as a link.
+const BARE_DOMAIN_TLDS = new Set([
+  'app',
+  'biz',
+  'click',
+  'club',
+  'com',
+  'dev',
+  'edu',
+  'finance',
+  'gov',
+  'health',
+  'help',
+  'icu',
+  'info',
+  'link',
+  'live',
+  'net',
+  'online',
+  'org',
+  'page',
+  'pro',
+  'shop',
+  'site',
+  'store',
+  'support',
+  'tech',
+  'top',
+  'vip',
+  'website',
+  'xyz',
+]);
+
+// Characters that render like a Latin letter, reduced to that letter.
+// Digits and letter pairs that pass for another letter are folded too.
+const CONFUSABLES: Record<string, string> = {
+  '\u0430': 'a', // Cyrillic a
+  '\u0251': 'a', // Latin alpha
+  '\u03b1': 'a', // Greek alpha
+  '\u0441': 'c', // Cyrillic es
+  '\u0501': 'd', // Cyrillic komi de
+  '\u0435': 'e', // Cyrillic ie
+  '\u0261': 'g', // Latin script g
+  '\u04bb': 'h', // Cyrillic shha
+  '\u0456': 'l', // Cyrillic byelorussian-ukrainian i
+  '\u0131': 'l', // Latin dotless i
+  '\u03b9': 'l', // Greek iota
+  '\u04cf': 'l', // Cyrillic palochka
+  '\u0458': 'j', // Cyrillic je
+  '\u043a': 'k', // Cyrillic ka
+  '\u03ba': 'k', // Greek kappa
+  '\u043e': 'o', // Cyrillic o
+  '\u03bf': 'o', // Greek omicron
+  '\u0440': 'p', // Cyrillic er
+  '\u03c1': 'p', // Greek rho
+  '\u051b': 'q', // Cyrillic qa
+  '\u0455': 's', // Cyrillic dze
+  '\u03bd': 'v', // Greek nu
+  '\u051d': 'w', // Cyrillic we
+  '\u0445': 'x', // Cyrillic ha
+  '\u0443': 'y', // Cyrillic u
+  '0': 'o',
+  '1': 'l',
+  i: 'l',
+  '3': 'e',
+  '5': 's',
+};
+
+const CONFUSABLE_PAIRS: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+];
+
+const IPV4_HOST = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+const HOST_PATTERN =
+  /^(?:[a-z0-9\u00c0-\uffff](?:[a-z0-9\u00c0-\uffff-]*[a-z0-9\u00c0-\uffff])?\.)+(?:[a-z\u00c0-\uffff]{2,63}|xn--[a-z0-9-]+)$/;
+const TRIM_PUNCTUATION = /^[("'<[{]+|[)"'>\]}.,;:!?\u2026]+$/g;
+
+/**
+ * Reduce a domain label to the Latin letters it looks like, so labels that
+ * render alike compare equal
+ */
+export const domainSkeleton = (label: string): string => {
+  let skeleton = Array.from(
+    label
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase(),
+    (char) => CONFUSABLES[char] ?? char
+  ).join('');
+  for (const [pair, letter] of CONFUSABLE_PAIRS) {
+    skeleton = skeleton.replace(pair, letter);
+  }
+  return skeleton;
+};
+
+/**
+ * Edit distance counting a swap of adjacent characters as one edit
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * Registrable part of a host name: the label below the public suffix plus
+ * the suffix, e.g. login.example.co.uk -> example.co.uk
+ */
+export const registrableDomain = (host: string): string => {
+  if (IPV4_HOST.test(host) || host.startsWith('[')) {
+    return host;
+  }
+  const labels = host.split('.');
+  const suffixLabels = TWO_LABEL_SUFFIXES.has(labels.slice(-2).join('.'))
+    ? 2
+    : 1;
+  return labels.slice(-(suffixLabels + 1)).join('.');
+};
+
+const hostFromUrl = (value: string): string | null => {
+  const withoutScheme = value.replace(/^https?:\/\//i, '');
+  const authority = withoutScheme.split(/[/?#]/)[0];
+  const host = authority
+    .slice(authority.lastIndexOf('@') + 1)
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+  return host || null;
+};
+
+/**
+ * URLs, bare domains and e-mail addresses written in a message
+ */
+export const extractLinks = (
+  text: string
+): Array<{ url: string; host: string; isEmail: boolean }> => {
+  const links: Array<{ url: string; host: string; isEmail: boolean }> = [];
+
+  for (const token of text.split(/\s+/)) {
+    const candidate = token.replace(TRIM_PUNCTUATION, '');
+    if (!candidate) {
+      continue;
+    }
+
+    const hasScheme = /^https?:\/\//i.test(candidate);
+    const isEmail = !hasScheme && /^[^@/:]+@[^@/:]+$/.test(candidate);
+    if (!hasScheme && !isEmail && /[:@]/.test(candidate.split(/[/?#]/)[0])) {
+      // Not a link, e.g. "ST:..." or "Ref:..."; ports need a scheme
+      continue;
+    }
+
+    const host = hostFromUrl(candidate);
+    const tld = host?.slice(host.lastIndexOf('.') + 1) ?? '';
+    const explicit = hasScheme || /^www\./i.test(candidate);
+    if (
+      host &&
+      ((HOST_PATTERN.test(host) &&
+        (explicit ||
+          isEmail ||
+          tld.length === 2 ||
+          tld.startsWith('xn--') ||
+          BARE_DOMAIN_TLDS.has(tld))) ||
+        IPV4_HOST.test(host) ||
+        (hasScheme && /^\[[0-9a-f:.]+\]$/.test(host)))
+    ) {
+      links.push({ url: candidate, host, isEmail });
+    }
+  }
+
+  return links;
+};
+
+const organizationDomains = (organization: LinkRiskOrganization): string[] =>
+  [organization.domain, organization.website_url]
+    .map((value) => (value ? hostFromUrl(value.trim()) : null))
+    .filter((host): host is string => !!host)
+    .map((host) => registrableDomain(host.replace(/^www\./, '')));
+
+const brandLabel = (domain: string): string =>
+  domain.slice(0, domain.indexOf('.'));
+
+/**
+ * Flags for one host compared with one organization domain
+ */
+const compareWithOrganization = (
+  host: string,
+  registrable: string,
+  officialDomain: string,
+  organizationName: string
+): LinkRiskFlag[] => {
+  const label = brandLabel(registrable);
+  const brand = brandLabel(officialDomain);
+  // Short brands match too much by accident
+  if (brand.length < 4) {
+    return [];
+  }
+
+  const imitation = (type: LinkRiskFlagType, how: string): LinkRiskFlag => ({
+    type,
+    severity: type === 'combosquat' ? 'medium' : 'high',
+    description: `${registrable} ${how} ${officialDomain}, the domain of ${organizationName}`,
+    organizationName,
+  });
+
+  if (label === brand) {
+    return [imitation('tld_swap', 'reuses the name of')];
+  }
+  if (domainSkeleton(label) === domainSkeleton(brand)) {
+    return [imitation('homoglyph', 'uses lookalike characters to imitate')];
+  }
+  if (editDistance(label, brand) <= (brand.length >= 9 ? 2 : 1)) {
+    return [imitation('typosquat', 'is a misspelling of')];
+  }
+
+  const subdomains = host
+    .slice(0, host.length - registrable.length)
+    .split('.')
+    .filter(Boolean);
+  if (
+    subdomains.some(
+      (subdomain) =>
+        subdomain === brand ||
+        domainSkeleton(subdomain) === domainSkeleton(brand)
+    )
+  ) {
+    return [
+      {
+        type: 'brand_in_subdomain',
+        severity: 'high',
+        description: `${host} puts the name of ${organizationName} in front of the unrelated domain ${registrable}`,
+        organizationName,
+      },
+    ];
+  }
+  if (domainSkeleton(label).includes(domainSkeleton(brand))) {
+    return [imitation('combosquat', 'adds words to')];
+  }
+
+  return [];
+};
+
+const analyzeLink = (
+  link: { url: string; host: string; isEmail: boolean },
+  organizations: LinkRiskOrganization[]
+): LinkFinding => {
+  const { url, host, isEmail } = link;
+  const registrable = registrableDomain(host);
+  const flags: LinkRiskFlag[] = [];
+
+  const official = organizations.find((organization) =>
+    organizationDomains(organization).includes(registrable)
+  );
+
+  if (IPV4_HOST.test(host) || host.startsWith('[')) {
+    flags.push({
+      type: 'raw_ip',
+      severity: 'high',
+      description: `${url} points to a bare IP address instead of a domain`,
+    });
+  }
+  if (URL_SHORTENERS.has(registrable)) {
+    flags.push({
+      type: 'url_shortener',
+      severity: 'medium',
+      description: `${registrable} is a link shortener that hides the real destination`,
+    });
+  }
+  if (
+    host.split('.').some((label) => label.startsWith('xn--')) ||
+    /[^\x00-\x7f]/.test(host)
+  ) {
+    flags.push({
+      type: 'punycode',
+      severity: 'medium',
+      description: `${host} contains non-Latin characters`,
+    });
+  }
+  if (/^https?:\/\/[^/?#]*@/i.test(url)) {
+    flags.push({
+      type: 'credentials_in_url',
+      severity: 'high',
+      description: `${url} hides its real host ${host} after an @`,
+    });
+  }
+  if (/^http:\/\//i.test(url)) {
+    flags.push({
+      type: 'insecure_http',
+      severity: 'low',
+      description: `${url} is not encrypted (http)`,
+    });
+  }
+
+  if (!official) {
+    for (const organization of organizations) {
+      for (const domain of organizationDomains(organization)) {
+        flags.push(
+          ...compareWithOrganization(
+            host,
+            registrable,
+            domain,
+            organization.name
+          )
+        );
+      }
+    }
+  }
+
+  return {
+    url,
+    host,
+    registrableDomain: registrable,
+    isEmail,
+    officialOrganization: official?.name,
+    // One flag per type, e.g. when an organization lists two domains
+    flags: flags.filter(
+      (flag, index) =>
+        flags.findIndex(
+          (other) =>
+            other.type === flag.type &&
+            other.organizationName === flag.organizationName
+        ) === index
+    ),
+  };
+};
+
+const RISK_ORDER: LinkRiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+/**
+ * Extract the links in a message and report how risky they look
+ */
+export const analyzeLinks = (
+  text: string,
+  organizations: LinkRiskOrganization[] = []
+): LinkRiskReport => {
+  const links = extractLinks(text).map((link) =>
+    analyzeLink(link, organizations)
+  );
+  const flags = links.flatMap((link) => link.flags);
+
+  const riskLevel = flags.reduce<LinkRiskLevel>(
+    (level, flag) =>
+      RISK_ORDER.indexOf(flag.severity) > RISK_ORDER.indexOf(level)
+        ? flag.severity
+        : level,
+    'none'
+  );
+  const score = Math.min(
+    100,
+    flags.reduce((total, flag) => total + SEVERITY_WEIGHTS[flag.severity], 0)
+  );
+
+  const worst = flags.find((flag) => flag.severity === riskLevel);
+  const officialNames = Array.from(
+    new Set(links.map((link) => link.officialOrganization).filter(Boolean))
+  );
+  const summary = worst
+    ? worst.description
+    : links.length === 0
+    ? 'No links found'
+    : officialNames.length > 0 &&
+      links.every((link) => link.officialOrganization)
+    ? `Links point to the official domain of ${officialNames.join(', ')}`
+    : 'No suspicious links found';
+
+  return { riskLevel, score, links, summary };
+};
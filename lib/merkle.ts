@@ -0,0 +1,146 @@
+import { getBytes } from 'ethers';
+import { bytesToHex, digestBytes } from './digest';
+
+// Merkle trees over message hashes, so one anchored root can vouch for a
+// whole batch of messages. Leaves and inner nodes are hashed with distinct
+// prefixes (RFC 6962) so a leaf can never be passed off as an inner node.
+// A node without a sibling is promoted to the next level unchanged rather
+// than paired with itself.
+
+export interface MerkleProof {
+  index: number;
+  leafCount: number;
+  siblings: string[]; // hex, bottom-up
+}
+
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+
+const hashWithPrefix = (prefix: number, ...parts: Uint8Array[]): Uint8Array => {
+  const length = parts.reduce((total, part) => total + part.length, 1);
+  const data = new Uint8Array(length);
+  data[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return digestBytes(data, 'sha256');
+};
+
+const hexToBytes = (hex: string): Uint8Array => {
+  if (!/^(0x)?[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Merkle hashes must be 32 bytes of hex');
+  }
+  return getBytes('0x' + hex.replace(/^0x/i, ''));
+};
+
+export const hashMerkleLeaf = (messageHash: string): string =>
+  bytesToHex(hashWithPrefix(LEAF_PREFIX, hexToBytes(messageHash)));
+
+const hashMerkleNode = (left: string, right: string): string =>
+  bytesToHex(hashWithPrefix(NODE_PREFIX, hexToBytes(left), hexToBytes(right)));
+
+/**
+ * Build every level of the tree, leaves first and the root last
+ */
+export const buildMerkleTree = (messageHashes: string[]): string[][] => {
+  if (messageHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels = [messageHashes.map(hashMerkleLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length ? hashMerkleNode(level[i], level[i + 1]) : level[i]
+      );
+    }
+    levels.push(next);
+  }
+
+  return levels;
+};
+
+export const getMerkleRoot = (levels: string[][]): string =>
+  levels[levels.length - 1][0];
+
+/**
+ * Inclusion proof for the leaf at `index`
+ */
+export const getMerkleProof = (
+  levels: string[][],
+  index: number
+): MerkleProof => {
+  const leafCount = levels[0].length;
+  if (!Number.isInteger(index) || index < 0 || index >= leafCount) {
+    throw new Error(`Leaf index ${index} is out of range`);
+  }
+
+  const siblings: string[] = [];
+  let position = index;
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position ^ 1;
+    if (sibling < level.length) {
+      siblings.push(level[sibling]);
+    }
+    position >>= 1;
+  }
+
+  return { index, leafCount, siblings };
+};
+
+/**
+ * Recompute the root a proof commits the message hash to. Returns null when
+ * the proof's shape does not fit its declared leaf count.
+ */
+export const computeMerkleRoot = (
+  messageHash: string,
+  proof: MerkleProof
+): string | null => {
+  const { index, leafCount, siblings } = proof;
+  if (
+    !Number.isInteger(index) ||
+    !Number.isInteger(leafCount) ||
+    index < 0 ||
+    index >= leafCount ||
+    !Array.isArray(siblings)
+  ) {
+    return null;
+  }
+
+  try {
+    let node = hashMerkleLeaf(messageHash);
+    let position = index;
+    let width = leafCount;
+    let used = 0;
+
+    while (width > 1) {
+      const sibling = position ^ 1;
+      if (sibling < width) {
+        if (used >= siblings.length) return null;
+        node =
+          position % 2 === 0
+            ? hashMerkleNode(node, siblings[used])
+            : hashMerkleNode(siblings[used], node);
+        used++;
+      }
+      position >>= 1;
+      width = Math.ceil(width / 2);
+    }
+
+    return used === siblings.length ? node : null;
+  } catch {
+    return null;
+  }
+};
+
+export const verifyMerkleProof = (
+  messageHash: string,
+  proof: MerkleProof,
+  root: string
+): boolean =>
+  computeMerkleRoot(messageHash, proof) ===
+  root.replace(/^0x/i, '').toLowerCase();
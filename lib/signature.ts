@@ -0,0 +1,254 @@
+import { encodeBase64, getBytes, hexlify, toBigInt } from 'ethers';
+import { base58ToBytes, base64ToBytes } from './encoding';
+import type { SigTextAlgorithm } from './sigtext';
+
+// Signature normalization. Signatures reach us in several encodings and
+// layouts; secp256k1 ECDSA forms are converted to one canonical shape so the
+// verify-message edge function sees a single representation per scheme:
+//
+//   rsv      65 bytes r || s || v, v of 0/1 or 27/28   -> 0x hex, v = 27/28
+//   eip2098  64 bytes r || yParityAndS                 -> 0x hex, v = 27/28
+//   bip137   65 bytes header || r || s (Bitcoin)        -> padded base64
+//
+// Anything else (Ed25519, Schnorr, BIP-322 witnesses) is passed through
+// unchanged because its verifier decodes it from the original encoding.
+
+export type SignatureEncoding =
+  | 'hex'
+  | 'base64'
+  | 'base64url'
+  | 'base58'
+  | 'unknown';
+
+export type SignatureFormat =
+  | 'rsv'
+  | 'eip2098'
+  | 'bip137'
+  | 'raw64'
+  | 'opaque'
+  | 'unknown';
+
+export interface NormalizedSignature {
+  signature: string; // canonical form to verify
+  encoding: SignatureEncoding;
+  format: SignatureFormat;
+  byteLength: number;
+  prefixed: boolean; // input carried a 0x prefix
+  recoveryId?: number; // v or BIP-137 header byte as received
+  // The other reading of a signature that fits two layouts (rsv and
+  // BIP-137, or EIP-2098 and Ed25519), to verify with when the chosen one
+  // does not match
+  alternate?: NormalizedSignature;
+  error?: string;
+}
+
+// secp256k1 group order; s values above half of it are malleable
+const SECP256K1_N = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+);
+const SECP256K1_HALF_N = SECP256K1_N / BigInt(2);
+
+const isHighS = (s: Uint8Array): boolean => toBigInt(s) > SECP256K1_HALF_N;
+
+const decodeSignature = (
+  value: string,
+  evmSender: boolean
+): { bytes: Uint8Array; encoding: SignatureEncoding } | null => {
+  const hex = value.replace(/^0x/i, '');
+  if (hex.length > 0 && hex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(hex)) {
+    return { bytes: getBytes('0x' + hex), encoding: 'hex' };
+  }
+
+  // Solana wallets emit base58; EVM wallets never do
+  if (!evmSender && /^[1-9A-HJ-NP-Za-km-z]{86,88}$/.test(value)) {
+    const bytes = base58ToBytes(value);
+    if (bytes.length === 64) {
+      return { bytes, encoding: 'base58' };
+    }
+  }
+
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) {
+    try {
+      return {
+        bytes: base64ToBytes(value),
+        encoding: /[-_]/.test(value) ? 'base64url' : 'base64',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+type Detected = Pick<
+  NormalizedSignature,
+  'encoding' | 'byteLength' | 'prefixed'
+>;
+
+const normalizeRsv = (
+  bytes: Uint8Array,
+  original: string,
+  detected: Detected
+): NormalizedSignature => {
+  const v = bytes[64];
+  if (isHighS(bytes.slice(32, 64))) {
+    return {
+      signature: original,
+      format: 'rsv',
+      recoveryId: v,
+      ...detected,
+      error: 'Signature is malleable (high S value)',
+    };
+  }
+  const canonical = bytes.slice();
+  canonical[64] = v < 27 ? v + 27 : v;
+  return {
+    signature: hexlify(canonical),
+    format: 'rsv',
+    recoveryId: v,
+    ...detected,
+  };
+};
+
+const normalizeBip137 = (
+  bytes: Uint8Array,
+  original: string,
+  detected: Detected
+): NormalizedSignature => {
+  const header = bytes[0];
+  if (isHighS(bytes.slice(33, 65))) {
+    return {
+      signature: original,
+      format: 'bip137',
+      recoveryId: header,
+      ...detected,
+      error: 'Signature is malleable (high S value)',
+    };
+  }
+  return {
+    signature: encodeBase64(bytes),
+    format: 'bip137',
+    recoveryId: header,
+    ...detected,
+  };
+};
+
+const normalizeEip2098 = (
+  bytes: Uint8Array,
+  original: string,
+  detected: Detected
+): NormalizedSignature => {
+  // The top bit of the second word is the y-parity
+  const yParity = bytes[32] >> 7;
+  const s = bytes.slice(32, 64);
+  s[0] &= 0x7f;
+  if (isHighS(s)) {
+    return {
+      signature: original,
+      format: 'eip2098',
+      ...detected,
+      error: 'Signature is malleable (high S value)',
+    };
+  }
+
+  const canonical = new Uint8Array(65);
+  canonical.set(bytes.slice(0, 32), 0);
+  canonical.set(s, 32);
+  canonical[64] = 27 + yParity;
+  return {
+    signature: hexlify(canonical),
+    format: 'eip2098',
+    recoveryId: yParity,
+    ...detected,
+  };
+};
+
+/**
+ * Detect a signature's encoding and layout and convert secp256k1 ECDSA
+ * signatures to canonical form. High-S signatures are rejected. The sender
+ * address and, for SigText trailers, the declared algorithm disambiguate:
+ * 64-byte signatures are EIP-2098 for 0x addresses unless declared Ed25519,
+ * and 65-byte ones are only BIP-137 for non-EVM senders. A signature that
+ * fits two layouts keeps the other reading as the alternate: a 65-byte one
+ * is read by its trailing recovery byte first, then as BIP-137, and an
+ * undeclared 64-byte one as EIP-2098, then unchanged for Ed25519.
+ */
+export const normalizeSignature = (
+  value: string,
+  senderAddress?: string,
+  algorithm?: SigTextAlgorithm
+): NormalizedSignature => {
+  const trimmed = value.trim();
+  const prefixed = /^0x/i.test(trimmed);
+  // Plain 0x addresses as well as did:ethr and did:pkh eip155 identifiers
+  const evmSender = /0x[0-9a-fA-F]{40}$/.test(senderAddress?.trim() || '');
+  const decoded = decodeSignature(trimmed, evmSender);
+
+  if (!decoded || decoded.bytes.length === 0) {
+    return {
+      signature: trimmed,
+      encoding: 'unknown',
+      format: 'unknown',
+      byteLength: 0,
+      prefixed,
+      error: 'Signature is not valid hex, base64 or base58',
+    };
+  }
+
+  const { bytes, encoding } = decoded;
+  const detected: Detected = { encoding, byteLength: bytes.length, prefixed };
+
+  if (bytes.length === 65) {
+    const v = bytes[64];
+    const header = bytes[0];
+    const looksRsv = v === 0 || v === 1 || v === 27 || v === 28;
+    const looksBip137 =
+      !evmSender && algorithm === undefined && header >= 27 && header <= 42;
+
+    const readings = [
+      ...(looksRsv ? [normalizeRsv(bytes, trimmed, detected)] : []),
+      ...(looksBip137 ? [normalizeBip137(bytes, trimmed, detected)] : []),
+    ];
+    if (readings.length === 0) {
+      return {
+        signature: trimmed,
+        format: 'unknown',
+        ...detected,
+        error: `Unsupported recovery id ${v}`,
+      };
+    }
+
+    // When the first reading fails, e.g. its S half is high, the other may
+    // still be sound
+    const usable = readings.filter((reading) => !reading.error);
+    if (usable.length === 0) {
+      return readings[0];
+    }
+    const [chosen, alternate] = usable;
+    return alternate ? { ...chosen, alternate } : chosen;
+  }
+
+  if (bytes.length === 64 && evmSender && algorithm !== 'ed25519') {
+    const compact = normalizeEip2098(bytes, trimmed, detected);
+    if (algorithm !== undefined) {
+      return compact;
+    }
+
+    // Undeclared, the bytes may also be an Ed25519 signature under the
+    // organization's public key, so they are kept unchanged as the other
+    // reading
+    const raw: NormalizedSignature = {
+      signature: trimmed,
+      format: 'raw64',
+      ...detected,
+    };
+    return compact.error ? raw : { ...compact, alternate: raw };
+  }
+
+  return {
+    signature: trimmed,
+    format: bytes.length === 64 ? 'raw64' : 'opaque',
+    ...detected,
+  };
+};
@@ -0,0 +1,198 @@
+import { canonicalizeMessage } from './canonical';
+import { SIGTEXT_PATTERN, decodeSigTextTrailer } from './sigtext';
+
+// Registry of the signature blocks recognised in SMS and pasted messages.
+// SMSService and SupabaseVerificationService both parse through it, so a
+// format added here is understood everywhere.
+//
+// To support a new format, describe it and register it at startup:
+//
+//   registerSignatureFormat({
+//     name: 'acme_signature',
+//     pattern: /\[ACME:([0-9a-f]{128})\]/i,
+//     encoding: 'hex',
+//     extractSignature: (match) => '0x' + match[1],
+//   });
+//
+// Formats are tried in registration order and the first one with a match
+// wins; pass `{ before: 'standard_hex' }` to take precedence over a built-in
+// format whose pattern would also match.
+
+export type SignatureBlockEncoding = 'hex' | 'base64' | 'base64url';
+
+export interface SignatureFormat {
+  name: string;
+  // Matches one signature block; must not use the g flag
+  pattern: RegExp;
+  encoding: SignatureBlockEncoding;
+  // Signature carried by a block, or null when the block is malformed
+  extractSignature: (match: RegExpMatchArray) => string | null;
+  // Sender identifier (DID or address) carried by a block, if any
+  extractSender?: (match: RegExpMatchArray) => string | undefined;
+  // Text the signature covers, given the content with the block removed.
+  // Defaults to that content.
+  signedContent?: (content: string, match: RegExpMatchArray) => string;
+  // Extra fields reported alongside the signature
+  extractMetadata?: (match: RegExpMatchArray) => Record<string, unknown>;
+  // Trailer formats carry one signature; block formats may repeat for
+  // countersigned messages
+  single?: boolean;
+}
+
+export interface ParsedSignatureBlocks {
+  format: string;
+  encoding: SignatureBlockEncoding;
+  content: string; // canonical content without signature blocks
+  signedContent: string;
+  signatures: string[];
+  senderAddress?: string;
+  blocks: string[];
+  metadata: Record<string, unknown>;
+}
+
+const signatureFormats: SignatureFormat[] = [
+  {
+    name: 'sigtext',
+    pattern: SIGTEXT_PATTERN,
+    encoding: 'base64url',
+    extractSignature: (match) =>
+      decodeSigTextTrailer(match[1], match[2])?.signature ?? null,
+    signedContent: (content, match) => `${content} ST:${match[1]}`,
+    extractMetadata: (match) => ({
+      sigText: decodeSigTextTrailer(match[1], match[2])?.header,
+    }),
+    single: true,
+  },
+  {
+    name: 'standard_hex',
+    pattern: /\[SIG:([0-9a-fA-F]{64,})\]/i,
+    encoding: 'hex',
+    extractSignature: (match) => match[1],
+  },
+  {
+    name: 'base64_signature',
+    pattern: /\[SIGNATURE:([A-Za-z0-9+/=]{64,})\]/i,
+    encoding: 'base64',
+    extractSignature: (match) => match[1],
+  },
+  {
+    name: 'web3_signature',
+    pattern: /\[WEB3SIG:0x([0-9a-fA-F]{128,})\]/i,
+    encoding: 'hex',
+    extractSignature: (match) => '0x' + match[1],
+  },
+  {
+    name: 'ethereum_signature',
+    pattern: /\[ETH:0x([0-9a-fA-F]{130})\]/i,
+    encoding: 'hex',
+    extractSignature: (match) => '0x' + match[1],
+  },
+  {
+    name: 'did_signature',
+    pattern:
+      /\[DID:(did:[a-z0-9]+:[a-zA-Z0-9._%:-]+)#SIG:([0-9a-fA-F]{64,})\]/i,
+    encoding: 'hex',
+    extractSignature: (match) => match[2],
+    extractSender: (match) => match[1],
+  },
+];
+
+/**
+ * Add a signature format. It is tried after the existing formats unless
+ * `before` names one it should precede. Registering a name again replaces
+ * the earlier definition.
+ */
+export const registerSignatureFormat = (
+  format: SignatureFormat,
+  options: { before?: string } = {}
+): void => {
+  if (format.pattern.global) {
+    throw new Error(`Signature format ${format.name} must not use the g flag`);
+  }
+
+  const existing = signatureFormats.findIndex(
+    (entry) => entry.name === format.name
+  );
+  if (existing !== -1) {
+    signatureFormats.splice(existing, 1);
+  }
+
+  const position = options.before
+    ? signatureFormats.findIndex((entry) => entry.name === options.before)
+    : -1;
+  if (position === -1) {
+    signatureFormats.push(format);
+  } else {
+    signatureFormats.splice(position, 0, format);
+  }
+};
+
+export const getSignatureFormats = (): readonly SignatureFormat[] =>
+  signatureFormats;
+
+/**
+ * Find the signature blocks of the first matching format. Every block of
+ * that format is collected, so countersigned messages yield several
+ * signatures. Returns null when the text carries no well-formed block.
+ */
+export const parseSignatureBlocks = (
+  text: string
+): ParsedSignatureBlocks | null => {
+  const canonical = canonicalizeMessage(text);
+
+  for (const format of signatureFormats) {
+    const matches = format.single
+      ? [canonical.match(format.pattern)].filter(
+          (match): match is RegExpMatchArray => match !== null
+        )
+      : Array.from(
+          canonical.matchAll(
+            new RegExp(format.pattern.source, format.pattern.flags + 'g')
+          )
+        );
+
+    const signatures: string[] = [];
+    const blocks: string[] = [];
+    let first: RegExpMatchArray | undefined;
+    let senderAddress: string | undefined;
+    let content = canonical;
+
+    for (const match of matches) {
+      const signature = format.extractSignature(match);
+      if (!signature) {
+        continue;
+      }
+      first = first || match;
+      signatures.push(signature);
+      blocks.push(match[0]);
+      senderAddress = senderAddress || format.extractSender?.(match);
+      content = content.replace(match[0], '');
+    }
+
+    if (!first) {
+      continue;
+    }
+
+    content = canonicalizeMessage(content);
+    return {
+      format: format.name,
+      encoding: format.encoding,
+      content,
+      signedContent: format.signedContent
+        ? format.signedContent(content, first)
+        : content,
+      signatures,
+      senderAddress,
+      blocks,
+      metadata: format.extractMetadata?.(first) ?? {},
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Whether text carries a well-formed signature block of any format
+ */
+export const containsSignatureBlock = (text: string): boolean =>
+  parseSignatureBlocks(text) !== null;
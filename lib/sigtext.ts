@@ -0,0 +1,195 @@
+import {
+  Signature,
+  encodeBase64,
+  getBytes,
+  hexlify,
+  sha256,
+  toUtf8Bytes,
+} from 'ethers';
+import { base64ToBytes } from './encoding';
+import { canonicalizeMessage } from './canonical';
+
+// SigText: compact signature trailer for SMS. The legacy [SIG:...],
+// [WEB3SIG:...] and [ETH:...] blocks spend up to 130 hex characters and
+// square brackets, which GSM-7 encodes as two septets each, so a signed SMS
+// never fit one 160-character segment. SigText uses only GSM-7 basic
+// characters:
+//
+//   <body> ST:<header>.<signature>
+//
+// Both parts are unpadded base64url. The header is
+//
+//   byte 0     version (1)
+//   byte 1     algorithm, see SIGTEXT_ALGORITHMS
+//   byte 2     flags; bit 0 set when an expiry follows
+//   bytes 3-6  key id: first 4 bytes of SHA-256 over the signing key or
+//              address, lowercased. The verifier only tries the
+//              organization key or wallet with this id.
+//   bytes 7-10 expiry, unix seconds big-endian (optional)
+//
+// The signer signs "<canonical body> ST:<header>", so the algorithm, key id
+// and expiry are covered by the signature. With a 64-byte signature the
+// trailer takes 101 characters (106 with an expiry), leaving 54-59 for the
+// body in a single segment.
+
+export const SIGTEXT_VERSION = 1;
+
+export type SigTextAlgorithm = 'eip191' | 'eip191_compact' | 'ed25519';
+
+export const SIGTEXT_ALGORITHMS: Record<SigTextAlgorithm, number> = {
+  eip191: 1, // secp256k1 personal_sign, 65-byte r || s || v
+  eip191_compact: 2, // secp256k1 personal_sign, 64-byte EIP-2098
+  ed25519: 3, // 64-byte Ed25519
+};
+
+const SIGNATURE_LENGTHS: Record<SigTextAlgorithm, number> = {
+  eip191: 65,
+  eip191_compact: 64,
+  ed25519: 64,
+};
+
+const FLAG_EXPIRY = 0x01;
+
+export const SIGTEXT_PATTERN =
+  /(?:^|\s)ST:([A-Za-z0-9_-]{10,15})\.([A-Za-z0-9_-]{80,90})$/;
+
+export interface SigTextHeader {
+  version: number;
+  algorithm: SigTextAlgorithm;
+  keyId: string; // 8 hex characters
+  expiresAt?: number; // unix seconds
+}
+
+export interface SigTextMessage extends SigTextHeader {
+  body: string;
+  signedContent: string; // the exact text the signer signed
+  signature: string; // 0x hex; EIP-2098 signatures expanded to 65 bytes
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  encodeBase64(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Key id for a public key or wallet address
+ */
+export const sigTextKeyId = (publicKeyOrAddress: string): string =>
+  sha256(toUtf8Bytes(publicKeyOrAddress.trim().toLowerCase())).slice(2, 10);
+
+const encodeHeader = (header: Omit<SigTextHeader, 'version'>): string => {
+  const bytes = new Uint8Array(header.expiresAt === undefined ? 7 : 11);
+  bytes[0] = SIGTEXT_VERSION;
+  bytes[1] = SIGTEXT_ALGORITHMS[header.algorithm];
+  bytes[2] = header.expiresAt === undefined ? 0 : FLAG_EXPIRY;
+  bytes.set(getBytes('0x' + header.keyId), 3);
+  if (header.expiresAt !== undefined) {
+    new DataView(bytes.buffer).setUint32(7, header.expiresAt);
+  }
+  return toBase64Url(bytes);
+};
+
+const decodeHeader = (encoded: string): SigTextHeader | null => {
+  const bytes = base64ToBytes(encoded);
+  if (bytes.length < 7 || bytes[0] !== SIGTEXT_VERSION) {
+    return null;
+  }
+
+  const algorithm = (
+    Object.keys(SIGTEXT_ALGORITHMS) as SigTextAlgorithm[]
+  ).find((name) => SIGTEXT_ALGORITHMS[name] === bytes[1]);
+  const hasExpiry = (bytes[2] & FLAG_EXPIRY) !== 0;
+  if (!algorithm || bytes.length !== (hasExpiry ? 11 : 7)) {
+    return null;
+  }
+
+  return {
+    version: bytes[0],
+    algorithm,
+    keyId: hexlify(bytes.slice(3, 7)).slice(2),
+    expiresAt: hasExpiry
+      ? new DataView(bytes.buffer, bytes.byteOffset).getUint32(7)
+      : undefined,
+  };
+};
+
+/**
+ * The exact text a signer signs for a SigText message
+ */
+export const sigTextSigningPayload = (
+  body: string,
+  header: Omit<SigTextHeader, 'version'>
+): string => `${canonicalizeMessage(body)} ST:${encodeHeader(header)}`;
+
+/**
+ * Append a SigText trailer carrying the given signature to a message body
+ */
+export const serializeSigText = (
+  body: string,
+  header: Omit<SigTextHeader, 'version'>,
+  signature: Uint8Array
+): string => {
+  if (signature.length !== SIGNATURE_LENGTHS[header.algorithm]) {
+    throw new Error(
+      `${header.algorithm} signatures must be ${
+        SIGNATURE_LENGTHS[header.algorithm]
+      } bytes`
+    );
+  }
+  return `${sigTextSigningPayload(body, header)}.${toBase64Url(signature)}`;
+};
+
+/**
+ * Decode the header and signature parts of a SigText trailer, or null when
+ * they are malformed. EIP-2098 signatures are expanded to 65 bytes.
+ */
+export const decodeSigTextTrailer = (
+  encodedHeader: string,
+  encodedSignature: string
+): { header: SigTextHeader; signature: string } | null => {
+  try {
+    const header = decodeHeader(encodedHeader);
+    const signatureBytes = base64ToBytes(encodedSignature);
+    if (
+      !header ||
+      signatureBytes.length !== SIGNATURE_LENGTHS[header.algorithm]
+    ) {
+      return null;
+    }
+
+    return {
+      header,
+      signature:
+        header.algorithm === 'eip191_compact'
+          ? Signature.from(hexlify(signatureBytes)).serialized
+          : hexlify(signatureBytes),
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse a SigText trailer from SMS text, or null when the text carries none
+ */
+export const parseSigText = (text: string): SigTextMessage | null => {
+  const canonical = canonicalizeMessage(text);
+  const match = canonical.match(SIGTEXT_PATTERN);
+  const decoded = match && decodeSigTextTrailer(match[1], match[2]);
+  if (!match || !decoded) {
+    return null;
+  }
+
+  const body = canonical.slice(0, match.index).trim();
+  if (!body) {
+    return null;
+  }
+
+  return {
+    ...decoded.header,
+    body,
+    signedContent: `${body} ST:${match[1]}`,
+    signature: decoded.signature,
+  };
+};
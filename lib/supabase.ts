@@ -1,4 +1,17 @@
 import { createClient } from '@supabase/supabase-js';
+import { hashMessageContent } from './digest';
+import {
+  CURRENT_CANONICALIZATION_VERSION,
+  type CanonicalizationVersion,
+} from './canonical';
+import type { NormalizedSenderId, SenderIdKind } from './senderId';
+import {
+  checkEnvelopeWindow,
+  envelopeFromTypedData,
+  parseEnvelope,
+  type EnvelopeStatus,
+  type MessageEnvelope,
+} from './envelope';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
@@ -27,7 +40,9 @@ export interface Organization {
   description?: string;
   wallet_address: string;
   public_key: string;
+  did?: string; // DID the organization signs [DID:...#SIG:...] messages with
   verification_status: 'pending' | 'verified' | 'rejected';
+  signature_threshold?: number; // distinct wallets that must sign
   logo_url?: string;
   website_url?: string;
   contact_email?: string;
@@ -54,9 +69,12 @@ export interface VerifiedMessage {
   signature: string;
   sender_address: string;
   recipient_address?: string;
-  verification_status: 'pending' | 'verified' | 'failed';
+  // suspicious: validly signed, but sent from a sender ID the signing
+  // organization has not verified
+  verification_status: 'pending' | 'verified' | 'failed' | 'suspicious';
   verification_details?: any;
   message_hash?: string;
+  canonicalization_version?: CanonicalizationVersion;
   block_number?: number;
   transaction_hash?: string;
   chain_id?: number;
@@ -74,6 +92,50 @@ export interface Message {
   verified?: boolean;
   hash?: string;
   type?: string;
+  organization_id?: string | null;
+  verification_details?: any;
+}
+
+export interface OrganizationKey {
+  id: string;
+  organization_id: string;
+  public_key: string;
+  valid_from: string;
+  valid_until?: string;
+  revoked_at?: string;
+  revocation_reason?: string;
+  successor_key_id?: string;
+  created_at: string;
+}
+
+export interface OrganizationSenderId {
+  id: string;
+  organization_id: string;
+  sender_id: string; // normalized, see lib/senderId.ts
+  kind: SenderIdKind;
+  verification_status: 'pending' | 'verified' | 'revoked';
+  challenge_expires_at?: string;
+  verified_at?: string;
+  created_at: string;
+}
+
+export interface SenderIdChallenge {
+  id: string;
+  sender_id: string;
+  kind: SenderIdKind;
+  verification_status: OrganizationSenderId['verification_status'];
+  // Sent as "VERIFY <code>" from the sender ID to prove ownership
+  challenge_code: string;
+  challenge_expires_at: string;
+}
+
+// Organization a verified sender ID belongs to
+export interface SenderIdOwner {
+  organization_id: string;
+  organization_name: string;
+  wallet_address: string;
+  sender_id: string;
+  kind: SenderIdKind;
 }
 
 export interface MessageVerificationAttempt {
@@ -462,9 +524,101 @@ export const getOrganizationByWallet = async (walletAddress: string) => {
   }
 };
 
+/**
+ * Update an organization's profile. A new `public_key` goes through
+ * rotateOrganizationKey so the key history keeps the old one.
+ */
+/**
+ * Verified organization that registered a DID, or null when none did
+ */
+export const getOrganizationByDID = async (did: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      data: {
+        id: 'org-' + Date.now() + '-1',
+        name: 'CryptoSecure Technologies',
+        did,
+        verification_status: 'verified',
+      } as Partial<Organization>,
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('did', did)
+      .eq('verification_status', 'verified')
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, ...handleSupabaseError(error, 'DID lookup') };
+    }
+
+    return { data: (data as Organization) || null, error: null };
+  } catch (error) {
+    console.error('Exception in getOrganizationByDID:', error);
+    return { data: null, error: { message: 'Failed to look up DID' } };
+  }
+};
+
+/**
+ * Addresses and public key an organization signs with: its primary wallet,
+ * its active additional wallets and its current public key
+ */
+export const getOrganizationAccounts = async (organizationId: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return { data: [] as string[], error: null };
+  }
+
+  try {
+    const { data: organization, error } = await supabase
+      .from('organizations')
+      .select('wallet_address, public_key')
+      .eq('id', organizationId)
+      .single();
+
+    if (error) {
+      return {
+        data: null,
+        ...handleSupabaseError(error, 'organization accounts'),
+      };
+    }
+
+    const { data: wallets, error: walletsError } = await supabase
+      .from('organization_wallets')
+      .select('wallet_address')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true);
+
+    if (walletsError) {
+      return {
+        data: null,
+        ...handleSupabaseError(walletsError, 'organization accounts'),
+      };
+    }
+
+    return {
+      data: [
+        organization.wallet_address,
+        organization.public_key,
+        ...(wallets || []).map((wallet) => wallet.wallet_address),
+      ].filter(Boolean) as string[],
+      error: null,
+    };
+  } catch (error) {
+    console.error('Exception in getOrganizationAccounts:', error);
+    return {
+      data: null,
+      error: { message: 'Failed to fetch organization accounts' },
+    };
+  }
+};
+
 export const updateOrganization = async (
   id: string,
-  updates: Partial<Organization>
+  { public_key: newPublicKey, ...updates }: Partial<Organization>
 ) => {
   if (!supabaseUrl || !supabaseAnonKey) {
     // Mock response for development without Supabase
@@ -472,6 +626,7 @@ export const updateOrganization = async (
       data: {
         id,
         ...updates,
+        ...(newPublicKey && { public_key: newPublicKey }),
         updated_at: new Date().toISOString(),
       },
       error: null,
@@ -479,12 +634,20 @@ export const updateOrganization = async (
   }
 
   try {
-    const { data, error } = await supabase
-      .from('organizations')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+    if (newPublicKey) {
+      const { error: rotationError } = await rotateOrganizationKey(
+        id,
+        newPublicKey
+      );
+      if (rotationError) {
+        return { data: null, error: rotationError };
+      }
+    }
+
+    const query = supabase.from('organizations');
+    const { data, error } = await (Object.keys(updates).length > 0
+      ? query.update(updates).eq('id', id).select().single()
+      : query.select().eq('id', id).single());
 
     if (error) {
       console.error('Supabase update organization error:', error);
@@ -498,33 +661,346 @@ export const updateOrganization = async (
   }
 };
 
+// Organization key history
+export const getOrganizationKeys = async (organizationId: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return { data: [], error: null };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('organization_keys')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('valid_from', { ascending: false });
+
+    if (error) {
+      return handleSupabaseError(error, 'organization keys');
+    }
+
+    return { data: (data || []) as OrganizationKey[], error: null };
+  } catch (error) {
+    console.error('Exception in getOrganizationKeys:', error);
+    return {
+      data: [],
+      error: { message: 'Failed to fetch organization keys' },
+    };
+  }
+};
+
+/**
+ * Replace an organization's current key. The old key stays valid for
+ * messages signed before the rotation.
+ */
+export const rotateOrganizationKey = async (
+  organizationId: string,
+  newPublicKey: string
+) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      data: {
+        id: 'key-' + Date.now(),
+        organization_id: organizationId,
+        public_key: newPublicKey,
+        valid_from: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+      } as OrganizationKey,
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('rotate_organization_key', {
+      org_id: organizationId,
+      new_public_key: newPublicKey,
+    });
+
+    if (error) {
+      return handleSupabaseError(error, 'key rotation');
+    }
+
+    return { data: data as OrganizationKey, error: null };
+  } catch (error) {
+    console.error('Exception in rotateOrganizationKey:', error);
+    return { data: null, error: { message: 'Failed to rotate key' } };
+  }
+};
+
+/**
+ * Revoke a key, e.g. after it leaked. Every message signed with it is then
+ * flagged as signed by a revoked key, whatever signing time it claims; only
+ * a 'superseded' key keeps the messages signed before its revocation valid.
+ */
+export const revokeOrganizationKey = async (keyId: string, reason: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      data: {
+        id: keyId,
+        revoked_at: new Date().toISOString(),
+        revocation_reason: reason,
+      } as Partial<OrganizationKey>,
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('revoke_organization_key', {
+      key_id: keyId,
+      reason,
+    });
+
+    if (error) {
+      return handleSupabaseError(error, 'key revocation');
+    }
+
+    return { data: data as OrganizationKey, error: null };
+  } catch (error) {
+    console.error('Exception in revokeOrganizationKey:', error);
+    return { data: null, error: { message: 'Failed to revoke key' } };
+  }
+};
+
+// Sender IDs of the demo organizations, used without Supabase. The wallets
+// are fixed per session so mock verification can name the signing
+// organization.
+const mockSenderIdOwners: SenderIdOwner[] = [
+  {
+    organization_id: 'org-mock-1',
+    organization_name: 'CryptoSecure Technologies',
+    sender_id: '+15550123',
+    kind: 'phone',
+    wallet_address: generateRealisticWalletAddress(),
+  },
+  {
+    organization_id: 'org-mock-2',
+    organization_name: 'FinanceFlow Digital',
+    sender_id: '+15550456',
+    kind: 'phone',
+    wallet_address: generateRealisticWalletAddress(),
+  },
+  {
+    organization_id: 'org-mock-3',
+    organization_name: 'MedChain Innovations',
+    sender_id: '+15550789',
+    kind: 'phone',
+    wallet_address: generateRealisticWalletAddress(),
+  },
+];
+
+export const getOrganizationSenderIds = async (organizationId: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      data: mockSenderIdOwners
+        .filter((owner) => owner.organization_id === organizationId)
+        .map(
+          (owner): OrganizationSenderId => ({
+            id: 'sender-' + owner.sender_id,
+            organization_id: owner.organization_id,
+            sender_id: owner.sender_id,
+            kind: owner.kind,
+            verification_status: 'verified',
+            created_at: new Date().toISOString(),
+          })
+        ),
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('organization_sender_ids')
+      .select(
+        'id, organization_id, sender_id, kind, verification_status, challenge_expires_at, verified_at, created_at'
+      )
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: [], ...handleSupabaseError(error, 'sender IDs') };
+    }
+
+    return { data: (data || []) as OrganizationSenderId[], error: null };
+  } catch (error) {
+    console.error('Exception in getOrganizationSenderIds:', error);
+    return { data: [], error: { message: 'Failed to fetch sender IDs' } };
+  }
+};
+
+/**
+ * Register a sender ID for an organization, or renew its challenge. The
+ * sender ID stays pending until the challenge code arrives from it.
+ */
+export const requestSenderIdChallenge = async (
+  organizationId: string,
+  senderId: NormalizedSenderId
+) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return {
+      data: {
+        id: 'sender-' + Date.now(),
+        sender_id: senderId.value,
+        kind: senderId.kind,
+        verification_status: 'pending',
+        challenge_code: String(Math.floor(Math.random() * 1000000)).padStart(
+          6,
+          '0'
+        ),
+        challenge_expires_at: new Date(
+          Date.now() + 30 * 60 * 1000
+        ).toISOString(),
+      } as SenderIdChallenge,
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('request_sender_id_challenge', {
+      org_id: organizationId,
+      sender: senderId.value,
+      sender_kind: senderId.kind,
+    });
+
+    if (error) {
+      return {
+        data: null,
+        ...handleSupabaseError(error, 'sender ID challenge'),
+      };
+    }
+
+    return { data: data as SenderIdChallenge, error: null };
+  } catch (error) {
+    console.error('Exception in requestSenderIdChallenge:', error);
+    return {
+      data: null,
+      error: { message: 'Failed to start sender ID verification' },
+    };
+  }
+};
+
+/**
+ * Verified organization using a sender ID, or null when none does
+ */
+export const getSenderIdOwner = async (senderId: NormalizedSenderId) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    const found = mockSenderIdOwners.find(
+      (owner) =>
+        owner.kind === senderId.kind && owner.sender_id === senderId.value
+    );
+    return { data: found || null, error: null };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('organization_sender_ids')
+      .select(
+        'sender_id, kind, organization:organizations!inner(id, name, wallet_address, verification_status)'
+      )
+      .eq('kind', senderId.kind)
+      .eq('sender_id', senderId.value)
+      .eq('verification_status', 'verified')
+      .eq('organization.verification_status', 'verified')
+      .limit(1);
+
+    if (error) {
+      return { data: null, ...handleSupabaseError(error, 'sender ID lookup') };
+    }
+
+    const entry = data?.[0] as any;
+    if (!entry?.organization) {
+      return { data: null, error: null };
+    }
+
+    return {
+      data: {
+        organization_id: entry.organization.id,
+        organization_name: entry.organization.name,
+        wallet_address: entry.organization.wallet_address,
+        sender_id: entry.sender_id,
+        kind: entry.kind,
+      } as SenderIdOwner,
+      error: null,
+    };
+  } catch (error) {
+    console.error('Exception in getSenderIdOwner:', error);
+    return { data: null, error: { message: 'Failed to look up sender ID' } };
+  }
+};
+
+// Nonces seen while running without Supabase, with the hash they came with.
+// With Supabase the verify-message edge function claims them.
+const mockClaimedNonces = new Map<string, string>();
+
+/**
+ * Replay verdict of a genuinely signed envelope while running without
+ * Supabase, following claim_message_nonce. Mock organizations have no
+ * stable id, so nonces are kept per sender address.
+ */
+const mockEnvelopeStatus = (
+  senderAddress: string,
+  envelope: MessageEnvelope,
+  messageHash: string
+): EnvelopeStatus => {
+  const windowStatus = checkEnvelopeWindow(envelope);
+  if (windowStatus !== 'fresh') {
+    return windowStatus;
+  }
+
+  const key = `${senderAddress.toLowerCase()}:${envelope.nonce}`;
+  const claimedHash = mockClaimedNonces.get(key);
+  if (claimedHash === undefined) {
+    mockClaimedNonces.set(key, messageHash);
+    return 'fresh';
+  }
+  return claimedHash === messageHash ? 'already_seen' : 'nonce_reused';
+};
+
 // Enhanced verification with better error handling
 export const verifyMessage = async (
   messageContent: string,
-  signature: string,
-  senderAddress: string
+  signature: string | string[],
+  senderAddress: string,
+  signedAt?: string,
+  canonicalizationVersion: CanonicalizationVersion = CURRENT_CANONICALIZATION_VERSION,
+  keyId?: string
 ) => {
+  const signatures = Array.isArray(signature) ? signature : [signature];
+
   if (!supabaseUrl || !supabaseAnonKey) {
     // Enhanced mock response with realistic verification
     const isValidSignature =
-      signature.length >= 64 && messageContent.length > 0;
-    const mockOrgId = 'org-' + Date.now() + '-1';
+      signatures.every((sig) => sig.length >= 64) && messageContent.length > 0;
+    const mockOrg = mockSenderIdOwners.find(
+      (owner) => owner.wallet_address === senderAddress.toLowerCase()
+    ) || {
+      organization_id: 'org-' + Date.now() + '-1',
+      organization_name: 'CryptoSecure Technologies',
+    };
+    const messageHash = hashMessageContent(messageContent);
+    const envelope = isValidSignature ? parseEnvelope(messageContent) : null;
+    const envelopeStatus =
+      envelope && mockEnvelopeStatus(senderAddress, envelope, messageHash);
 
     return {
       data: {
-        is_valid: isValidSignature,
-        organization_id: isValidSignature ? mockOrgId : null,
-        organization_name: isValidSignature
-          ? 'CryptoSecure Technologies'
-          : null,
+        is_valid:
+          isValidSignature && (!envelopeStatus || envelopeStatus === 'fresh'),
+        organization_id: isValidSignature ? mockOrg.organization_id : null,
+        organization_name: isValidSignature ? mockOrg.organization_name : null,
         verification_details: {
           timestamp: Date.now(),
           method: 'mock',
           signature_format: 'hex',
-          message_hash: Array.from({ length: 8 }, () =>
-            Math.floor(Math.random() * 16).toString(16)
-          ).join(''),
+          message_hash: messageHash,
+          canonicalization_version: canonicalizationVersion,
           sender_address: senderAddress,
+          ...(envelope && {
+            envelope: {
+              nonce: envelope.nonce,
+              issued_at: envelope.issuedAt,
+              expires_at: envelope.expiresAt,
+              status: envelopeStatus,
+            },
+          }),
         },
       },
       error: null,
@@ -532,27 +1008,131 @@ export const verifyMessage = async (
   }
 
   try {
-    const { data, error } = await supabase.rpc('verify_message_signature', {
-      message_content: messageContent,
-      signature: signature,
-      sender_addr: senderAddress,
+    // Signatures are checked by the verify-message edge function, which
+    // answers in the same shape verify_message_signature used to
+    const { data, error } = await supabase.functions.invoke('verify-message', {
+      body: {
+        message_content: messageContent,
+        // A one-element array goes as a plain signature
+        ...(signatures.length > 1
+          ? { signatures }
+          : { signature: signatures[0] }),
+        sender_addr: senderAddress,
+        signed_at: signedAt,
+        canonicalization_version: canonicalizationVersion,
+        key_id: keyId,
+      },
     });
 
     if (error) {
       console.error('Message verification error:', error);
-      return handleSupabaseError(error, 'message verification');
+      return {
+        data: null,
+        ...handleSupabaseError(error, 'message verification'),
+      };
     }
 
-    return { data: data?.[0] || null, error: null };
+    return { data: data || null, error: null };
   } catch (error) {
     console.error('Exception in verifyMessage:', error);
-    return handleSupabaseError(error, 'message verification');
+    return {
+      data: null,
+      ...handleSupabaseError(error, 'message verification'),
+    };
+  }
+};
+
+/**
+ * Check an EIP-712 message that carries an envelope with the verify-message
+ * edge function, which verifies the signature and claims the nonce. The
+ * answer has the same shape as verifyMessage's.
+ */
+export const verifyTypedMessage = async (
+  typedData: {
+    domain: Record<string, any>;
+    types: Record<string, any>;
+    primaryType?: string;
+    message: Record<string, any>;
+  },
+  signature: string,
+  senderAddress: string
+) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    const envelope = envelopeFromTypedData(typedData.message);
+    const mockOrg = mockSenderIdOwners.find(
+      (owner) => owner.wallet_address === senderAddress.toLowerCase()
+    ) || {
+      organization_id: 'org-' + Date.now() + '-1',
+      organization_name: 'CryptoSecure Technologies',
+    };
+    const envelopeStatus =
+      envelope &&
+      mockEnvelopeStatus(
+        senderAddress,
+        envelope,
+        hashMessageContent(envelope.body)
+      );
+
+    return {
+      data: {
+        is_valid: !envelopeStatus || envelopeStatus === 'fresh',
+        organization_id: mockOrg.organization_id,
+        organization_name: mockOrg.organization_name,
+        verification_details: {
+          method: 'mock',
+          scheme: 'eip712',
+          ...(envelope && {
+            envelope: {
+              nonce: envelope.nonce,
+              issued_at: envelope.issuedAt,
+              expires_at: envelope.expiresAt,
+              status: envelopeStatus,
+            },
+          }),
+        },
+      },
+      error: null,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('verify-message', {
+      body: {
+        typed_data: typedData,
+        signature,
+        sender_addr: senderAddress,
+      },
+    });
+
+    if (error) {
+      console.error('Typed message verification error:', error);
+      return {
+        data: null,
+        ...handleSupabaseError(error, 'typed message verification'),
+      };
+    }
+
+    return { data: data || null, error: null };
+  } catch (error) {
+    console.error('Exception in verifyTypedMessage:', error);
+    return {
+      data: null,
+      ...handleSupabaseError(error, 'typed message verification'),
+    };
   }
 };
 
 export const saveVerifiedMessage = async (
   messageData: Partial<VerifiedMessage>
 ) => {
+  // Always store the SHA-256 of the content so any device can reproduce it
+  if (!messageData.message_hash && messageData.message_content !== undefined) {
+    messageData = {
+      ...messageData,
+      message_hash: hashMessageContent(messageData.message_content),
+    };
+  }
+
   if (!supabaseUrl || !supabaseAnonKey) {
     // Mock response for development without Supabase
     return {
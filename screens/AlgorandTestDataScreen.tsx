@@ -10,8 +10,8 @@ export default function AlgorandTestDataScreen({ navigation }: any) {
     const { colors } = useTheme();
     const [selectedAddress, setSelectedAddress] = useState('');
     const [testMessage, setTestMessage] = useState('Test message for Algorand verification');
-    const [testSignature, setTestSignature] = useState('a1b2c3d4e5f6789012345678901234567890abcdef1234567890abcdef123456');
-    const [testPublicKey, setTestPublicKey] = useState('04a34b99f22c790c4e36b2b3c2c35a36db06226e41c692fc82b8b56ac1c540c5bd');
+    const [testSignature, setTestSignature] = useState('');
+    const [testPublicKey, setTestPublicKey] = useState('');
     const [verificationResult, setVerificationResult] = useState<any>(null);
     const [isVerifying, setIsVerifying] = useState(false);
 
@@ -57,6 +57,14 @@ export default function AlgorandTestDataScreen({ navigation }: any) {
         }
     };
 
+    const generateSignedSample = () => {
+        const sample = algorandService.generateSignedTestMessage(testMessage || 'Test message for Algorand verification');
+        setTestMessage(sample.message);
+        setTestSignature(sample.signature);
+        setTestPublicKey(sample.address);
+        setVerificationResult(null);
+    };
+
     const AddressCard = ({ address, index }: { address: any; index: number }) => (
         <Animatable.View
             animation="fadeInUp"
@@ -173,7 +181,7 @@ export default function AlgorandTestDataScreen({ navigation }: any) {
                             style={[styles.input, { backgroundColor: colors.surface, color: colors.text }]}
                             value={testSignature}
                             onChangeText={setTestSignature}
-                            placeholder="Enter signature"
+                            placeholder="Signature (hex or base64)"
                             placeholderTextColor={colors.textSecondary}
                         />
                     </View>
@@ -184,11 +192,20 @@ export default function AlgorandTestDataScreen({ navigation }: any) {
                             style={[styles.input, { backgroundColor: colors.surface, color: colors.text }]}
                             value={testPublicKey}
                             onChangeText={setTestPublicKey}
-                            placeholder="Enter public key"
+                            placeholder="Algorand address or public key (hex/base64)"
                             placeholderTextColor={colors.textSecondary}
                         />
                     </View>
 
+                    <Pressable
+                        style={[styles.verifyButton, { backgroundColor: colors.secondary }]}
+                        onPress={generateSignedSample}
+                        disabled={isVerifying}
+                    >
+                        <Coins size={20} color="white" />
+                        <Text style={styles.verifyButtonText}>Generate Signed Sample</Text>
+                    </Pressable>
+
                     <Pressable
                         style={[styles.verifyButton, { backgroundColor: colors.primary }]}
                         onPress={verifyTestMessage}
@@ -225,6 +242,18 @@ export default function AlgorandTestDataScreen({ navigation }: any) {
                                     <Text style={[styles.detailText, { color: colors.text }]}>
                                         Algorithm: {verificationResult.details.algorithm}
                                     </Text>
+                                    <Text style={[styles.detailText, { color: colors.text }]}>
+                                        Convention: {verificationResult.details.convention === 'algorand_sign_bytes'
+                                            ? 'Algorand signBytes (MX prefix)'
+                                            : verificationResult.details.convention === 'raw_ed25519'
+                                                ? 'Raw Ed25519'
+                                                : 'None matched'}
+                                    </Text>
+                                    {verificationResult.details.address && (
+                                        <Text style={[styles.detailText, { color: colors.text }]} numberOfLines={1}>
+                                            Signer: {verificationResult.details.address}
+                                        </Text>
+                                    )}
                                     <Text style={[styles.detailText, { color: colors.text }]}>
                                         Message Hash: {verificationResult.details.messageHash}
                                     </Text>
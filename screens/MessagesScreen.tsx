@@ -18,11 +18,15 @@ import {
   RefreshCw,
   Shield,
   Volume2,
+  TriangleAlert as AlertTriangle,
 } from "lucide-react-native"
 import { useTheme } from "../contexts/ThemeContext"
 import { getMessages, addSampleMessages, type Message } from "../lib/supabase"
 import { useVerification } from "../contexts/VerificationContext"
 import { voiceService } from "../services/VoiceService"
+import { supabaseVerificationService } from "../services/SupabaseVerificationService"
+import LinkRiskPanel from "../components/LinkRiskPanel"
+import type { LinkRiskReport } from "../lib/linkRisk"
 import * as Animatable from "react-native-animatable"
 
 const { width: screenWidth } = Dimensions.get("window")
@@ -35,6 +39,7 @@ export default function MessagesScreen() {
   const [refreshing, setRefreshing] = useState(false)
   const [verifyingId, setVerifyingId] = useState<string | null>(null)
   const [speakingId, setSpeakingId] = useState<string | null>(null)
+  const [linkReports, setLinkReports] = useState<Record<string, LinkRiskReport>>({})
 
   useEffect(() => {
     loadMessages()
@@ -52,6 +57,15 @@ export default function MessagesScreen() {
       }
 
       setMessages(data || [])
+
+      // Check the links in every message, signed or not
+      const reports = await Promise.all(
+        (data || []).map(
+          async (message) =>
+            [message.id, await supabaseVerificationService.analyzeMessageLinks(message.content)] as const,
+        ),
+      )
+      setLinkReports(Object.fromEntries(reports))
     } catch (error) {
       console.error("Error loading messages:", error)
       Alert.alert("Error", "Failed to load messages")
@@ -131,9 +145,22 @@ export default function MessagesScreen() {
     return `${address.substring(0, 8)}...${address.substring(address.length - 8)}`
   }
 
+  // Warning for a valid SMS signature that arrived from an address the
+  // signing organization has not registered
+  const getSenderWarning = (message: Message) => {
+    const check = message.verification_details?.sender_check
+    if (!check || check.status === "expected" || check.status === "not_enrolled") return null
+
+    const sender = check.sender_id?.value || check.sender
+    return check.status === "registered_to_other"
+      ? `Sent from ${sender}, which belongs to ${check.registered_organization_name}`
+      : `Sent from ${sender}, which the signer has not registered`
+  }
+
   const renderItem = ({ item }: { item: Message }) => {
     const isVerifying = verifyingId === item.id
     const isSpeaking = speakingId === item.id
+    const senderWarning = getSenderWarning(item)
 
     // Format date
     const messageDate = new Date(item.timestamp)
@@ -165,6 +192,20 @@ export default function MessagesScreen() {
           {item.content}
         </Text>
 
+        {senderWarning && (
+          <View style={[styles.senderWarning, { backgroundColor: colors.warning + "20", borderColor: colors.warning }]}>
+            <AlertTriangle size={16} color={colors.warning} />
+            <View style={styles.senderWarningTextContainer}>
+              <Text style={[styles.senderWarningTitle, { color: colors.warning }]}>
+                Valid signature, unexpected sender
+              </Text>
+              <Text style={[styles.senderWarningText, { color: colors.text }]}>{senderWarning}</Text>
+            </View>
+          </View>
+        )}
+
+        <LinkRiskPanel report={linkReports[item.id]} />
+
         <View style={styles.messageFooter}>
           <View style={styles.statusContainer}>
             {item.signature && (
@@ -175,7 +216,9 @@ export default function MessagesScreen() {
             )}
 
             {item.verified !== undefined &&
-              (item.verified ? (
+              (item.verified && senderWarning ? (
+                <AlertTriangle size={16} color={colors.warning} />
+              ) : item.verified ? (
                 <CheckCircle size={16} color={colors.success} />
               ) : (
                 <XCircle size={16} color={colors.error} />
@@ -324,6 +367,28 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 12,
   },
+  senderWarning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 8,
+  },
+  senderWarningTextContainer: {
+    flex: 1,
+  },
+  senderWarningTitle: {
+    fontSize: 14,
+    fontFamily: "Inter-SemiBold",
+    marginBottom: 2,
+  },
+  senderWarningText: {
+    fontSize: 13,
+    fontFamily: "Inter-Regular",
+    lineHeight: 18,
+  },
   messageFooter: {
     flexDirection: "row",
     justifyContent: "space-between",
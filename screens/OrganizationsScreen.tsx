@@ -23,9 +23,11 @@ import {
   ExternalLink,
   Globe,
   Mail,
+  MessageSquare,
 } from "lucide-react-native"
 import { useTheme } from "../contexts/ThemeContext"
-import { getOrganizations, addSampleOrganizations, type Organization } from "../lib/supabase"
+import { getOrganizations, addSampleOrganizations, getCurrentUser, type Organization } from "../lib/supabase"
+import SenderIdPanel from "../components/SenderIdPanel"
 import * as Animatable from "react-native-animatable"
 import { useFocusEffect } from "@react-navigation/native"
 import { useCallback } from "react"
@@ -41,6 +43,8 @@ export default function OrganizationsScreen({ navigation, route }: any) {
   const [refreshing, setRefreshing] = useState(false)
   const [loading, setLoading] = useState(true)
   const [addingSamples, setAddingSamples] = useState(false)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [senderIdsOrgId, setSenderIdsOrgId] = useState<string | null>(null)
 
   // Load organizations when screen comes into focus or when refresh param is passed
   useFocusEffect(
@@ -75,6 +79,10 @@ export default function OrganizationsScreen({ navigation, route }: any) {
 
       console.log("Loaded organizations:", data?.length || 0)
       setOrganizations(data || [])
+
+      // Creators manage their organization's SMS sender IDs from its card
+      const { user } = await getCurrentUser()
+      setCurrentUserId(user?.id ?? null)
     } catch (error) {
       console.error("Exception in loadOrganizations:", error)
       Alert.alert("Error", "Failed to load organizations")
@@ -250,6 +258,8 @@ export default function OrganizationsScreen({ navigation, route }: any) {
         </Text>
       </View>
 
+      {senderIdsOrgId === org.id && <SenderIdPanel organizationId={org.id} />}
+
       <View style={styles.cardFooter}>
         <View style={styles.orgMeta}>
           <Text style={[styles.metaText, { color: colors.textSecondary }]}>
@@ -257,6 +267,14 @@ export default function OrganizationsScreen({ navigation, route }: any) {
           </Text>
         </View>
         <View style={styles.cardActions}>
+          {currentUserId && org.created_by === currentUserId && (
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.surface }]}
+              onPress={() => setSenderIdsOrgId(senderIdsOrgId === org.id ? null : org.id)}
+            >
+              <MessageSquare size={16} color={colors.primary} />
+            </Pressable>
+          )}
           {org.website_url && (
             <Pressable style={[styles.actionButton, { backgroundColor: colors.surface }]}>
               <ExternalLink size={16} color={colors.primary} />
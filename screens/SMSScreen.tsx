@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { MessageSquare, CircleCheck as CheckCircle, Circle as XCircle, Clock, RefreshCw, Shield } from 'lucide-react-native';
+import { MessageSquare, CircleCheck as CheckCircle, Circle as XCircle, Clock, RefreshCw, Shield, Layers, TriangleAlert as AlertTriangle } from 'lucide-react-native';
 import { useTheme } from '../contexts/ThemeContext';
 import { smsService } from '../services/SMSService';
 import { useVerification } from '../contexts/VerificationContext';
+import { supabaseVerificationService } from '../services/SupabaseVerificationService';
+import LinkRiskPanel from '../components/LinkRiskPanel';
+import type { LinkRiskReport } from '../lib/linkRisk';
 import * as Animatable from 'react-native-animatable';
 
 interface SMS {
@@ -16,6 +19,11 @@ interface SMS {
   read: number;
   verified?: boolean | null;
   hasSignature?: boolean;
+  parts?: number; // segments rejoined into this message
+  // Set when the signature is valid but the message came from an address
+  // the signing organization has not registered
+  senderWarning?: string;
+  linkReport?: LinkRiskReport;
 }
 
 export default function SMSScreen() {
@@ -25,6 +33,7 @@ export default function SMSScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [inboxNotice, setInboxNotice] = useState<string | null>(null);
 
   useEffect(() => {
     loadSMSMessages();
@@ -34,13 +43,18 @@ export default function SMSScreen() {
     try {
       setLoading(true);
       const result = await smsService.getSMSMessages(100);
+      // Demo data or an unreadable inbox must not pass for real messages
+      setInboxNotice(result.method === 'native' && result.success ? null : result.message);
 
-      // Process messages to check for signatures
-      const processedMessages = result.messages.map((msg) => ({
-        ...msg,
-        hasSignature: smsService.containsValidSignature(msg.body),
-        verified: null, // Will be set when verified
-      }));
+      // Process messages to check for signatures and risky links
+      const processedMessages = await Promise.all(
+        result.messages.map(async (msg) => ({
+          ...msg,
+          hasSignature: smsService.containsValidSignature(msg.body),
+          verified: null, // Will be set when verified
+          linkReport: await supabaseVerificationService.analyzeMessageLinks(msg.body),
+        }))
+      );
 
       setMessages(processedMessages);
     } catch (error) {
@@ -66,14 +80,27 @@ export default function SMSScreen() {
 
       // Update the message in the list with verification result
       setMessages((prevMessages) =>
-        prevMessages.map((msg) => (msg._id === message._id ? { ...msg, verified: result.isValid } : msg))
+        prevMessages.map((msg) =>
+          msg._id === message._id
+            ? {
+                ...msg,
+                verified: result.isValid,
+                senderWarning: result.senderStatus === "unexpected_sender" ? result.message : undefined,
+                linkReport: result.linkReport ?? msg.linkReport,
+              }
+            : msg
+        )
       );
 
-      // Show result
-      if (result.isValid) {
-        Alert.alert("Verification Successful", "The message signature is valid.");
+      // Show result, with the link verdict when the links look risky
+      const linkNote =
+        result.linkReport && result.linkReport.riskLevel !== "none" ? `\n\nLinks: ${result.linkReport.summary}` : "";
+      if (result.isValid && result.senderStatus === "unexpected_sender") {
+        Alert.alert("Valid Signature, Unexpected Sender", `${result.message}. This may be a phishing attempt.${linkNote}`);
+      } else if (result.isValid) {
+        Alert.alert("Verification Successful", `The message signature is valid.${linkNote}`);
       } else {
-        Alert.alert("Verification Failed", "The message signature could not be verified.");
+        Alert.alert("Verification Failed", `The message signature could not be verified.${linkNote}`);
       }
     } catch (error) {
       console.error("Error verifying message:", error);
@@ -94,6 +121,7 @@ export default function SMSScreen() {
     const getStatusIcon = () => {
       if (isVerifying) return <ActivityIndicator size="small" color={colors.primary} />;
       if (!item.hasSignature) return null;
+      if (item.verified === true && item.senderWarning) return <AlertTriangle size={16} color={colors.warning} />;
       if (item.verified === true) return <CheckCircle size={16} color={colors.success} />;
       if (item.verified === false) return <XCircle size={16} color={colors.error} />;
       return <Clock size={16} color={colors.warning} />;
@@ -110,6 +138,18 @@ export default function SMSScreen() {
           {item.body}
         </Text>
 
+        {item.verified === true && item.senderWarning && (
+          <View style={[styles.senderWarning, { backgroundColor: colors.warning + "20", borderColor: colors.warning }]}>
+            <AlertTriangle size={16} color={colors.warning} />
+            <View style={styles.senderWarningTextContainer}>
+              <Text style={[styles.senderWarningTitle, { color: colors.warning }]}>Valid signature, unexpected sender</Text>
+              <Text style={[styles.senderWarningText, { color: colors.text }]}>{item.senderWarning}</Text>
+            </View>
+          </View>
+        )}
+
+        <LinkRiskPanel report={item.linkReport} />
+
         <View style={styles.messageFooter}>
           <View style={styles.statusContainer}>
             {item.hasSignature && (
@@ -119,6 +159,13 @@ export default function SMSScreen() {
               </View>
             )}
 
+            {item.parts && item.parts > 1 && (
+              <View style={[styles.signatureBadge, { backgroundColor: colors.textSecondary + "20" }]}>
+                <Layers size={12} color={colors.textSecondary} />
+                <Text style={[styles.signatureText, { color: colors.textSecondary }]}>{item.parts} parts merged</Text>
+              </View>
+            )}
+
             {getStatusIcon()}
           </View>
 
@@ -143,6 +190,9 @@ export default function SMSScreen() {
         <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
           {messages.length} messages • {messages.filter((m) => m.hasSignature).length} with signatures
         </Text>
+        {inboxNotice && (
+          <Text style={[styles.inboxNotice, { color: colors.warning }]}>{inboxNotice}</Text>
+        )}
       </View>
 
       {loading ? (
@@ -206,6 +256,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: 'Inter-Regular',
   },
+  inboxNotice: {
+    marginTop: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -250,6 +305,28 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 12,
   },
+  senderWarning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 8,
+  },
+  senderWarningTextContainer: {
+    flex: 1,
+  },
+  senderWarningTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 2,
+  },
+  senderWarningText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
   messageFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -17,6 +17,10 @@ export default function ScanResultScreen() {
     console.log('Copied to clipboard:', text);
   };
 
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
   const shareResult = async () => {
     try {
       await Share.share({
@@ -99,6 +103,63 @@ export default function ScanResultScreen() {
                   {result.details.verificationMethod || 'QR Code'}
                 </Text>
               </View>
+
+              {result.details.signerType && (
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Signed By:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {result.details.signerType === 'contract' ? 'Smart contract wallet (EIP-1271)' : 'Externally owned account'}
+                  </Text>
+                </View>
+              )}
+
+              {result.details.signers && (
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Signers:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {result.details.signers.length} of {result.details.requiredSignatures} required
+                    {'\n'}
+                    {result.details.signers.map((signer: string) => formatAddress(signer)).join(', ')}
+                  </Text>
+                </View>
+              )}
+
+              {result.details.keyStatus && result.details.keyStatus !== 'valid' && (
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Signing Key:</Text>
+                  <Text style={[styles.detailValue, { color: colors.error }]}>
+                    {result.details.keyStatus === 'revoked' ? 'Revoked' : 'Not valid at signing time'}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Signed Typed Data Fields */}
+          {result.verified && result.typedData && (
+            <View style={[styles.detailsContainer, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.detailsTitle, { color: colors.text }]}>
+                Signed Fields ({result.typedData.primaryType})
+              </Text>
+
+              {result.typedData.domain?.name && (
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Domain:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {result.typedData.domain.name}
+                    {result.typedData.domain.chainId ? ` (chain ${result.typedData.domain.chainId})` : ''}
+                  </Text>
+                </View>
+              )}
+
+              {result.typedData.fields.map((field: { path: string; type: string; value: string }) => (
+                <View key={field.path} style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>{field.path}:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]} selectable>
+                    {field.value}
+                  </Text>
+                </View>
+              ))}
             </View>
           )}
 
@@ -36,7 +36,8 @@ export default function ScannerScreen() {
 
     try {
       // Verify QR message using Supabase service
-      const isVerified = await verifyQRMessage(data);
+      const verification = await verifyQRMessage(data);
+      const isVerified = verification.isValid === true;
 
       let organizationName = '';
       let message = '';
@@ -45,11 +46,18 @@ export default function ScannerScreen() {
         // Try to extract organization info from QR data
         try {
           const qrData = JSON.parse(data);
-          organizationName = qrData.organizationName || qrData.issuer || 'Verified Organization';
+          organizationName =
+            verification.organizationName || qrData.organizationName || qrData.issuer || 'Verified Organization';
           message = `Message verified successfully from ${organizationName}!`;
         } catch {
           message = 'Message verified successfully!';
         }
+      } else if (
+        (verification.keyStatus && verification.keyStatus !== 'valid') ||
+        (verification.envelopeStatus && verification.envelopeStatus !== 'fresh') ||
+        verification.thresholdMet === false
+      ) {
+        message = verification.message;
       } else {
         message = 'Verification failed - signature invalid or organization not verified';
       }
@@ -67,8 +75,13 @@ export default function ScannerScreen() {
             details: {
               scanTime: new Date().toISOString(),
               scanType: type,
-              verificationMethod: 'blockchain',
+              verificationMethod: verification.verificationDetails?.verification_method || 'blockchain',
+              signerType: verification.verificationDetails?.verified_by,
+              keyStatus: verification.keyStatus,
+              signers: verification.signers,
+              requiredSignatures: verification.verificationDetails?.required_signatures,
             },
+            typedData: verification.verificationDetails?.typed_data,
           },
         } as never
       );
@@ -22,20 +22,14 @@ import {
 import { useTheme } from "../contexts/ThemeContext"
 import { useVerification } from "../contexts/VerificationContext"
 import { voiceService } from "../services/VoiceService"
-import { blockchainService } from "../services/BlockchainService"
+import { blockchainService, type ConnectionStatus } from "../services/BlockchainService"
 
 export default function SettingsScreen() {
   const { colors, theme, setTheme, isDark } = useTheme()
   const { enableVoiceFeedback, setEnableVoiceFeedback, offlineMode, setOfflineMode, messages } = useVerification()
 
   const [notificationsEnabled, setNotificationsEnabled] = useState(true)
-  const [blockchainStatus, setBlockchainStatus] = useState<{
-    connected: boolean
-    provider?: string
-    blockNumber?: number
-    latency?: number
-    error?: string
-  }>({ connected: false })
+  const [blockchainStatus, setBlockchainStatus] = useState<ConnectionStatus>({ connected: false })
   const [checkingConnection, setCheckingConnection] = useState(false)
   const [voiceStatus, setVoiceStatus] = useState(voiceService.getStatus())
   const [testingVoice, setTestingVoice] = useState(false)
@@ -252,14 +246,24 @@ export default function SettingsScreen() {
               <View style={styles.settingContent}>
                 <Text style={[styles.settingTitle, { color: colors.text }]}>Blockchain Status</Text>
                 <Text style={[styles.settingDescription, { color: colors.textSecondary }]}>
-                  {blockchainStatus.connected ? "Connected and ready" : "Connection issues detected"}
+                  {checkingConnection
+                    ? "Checking connection..."
+                    : blockchainStatus.connected
+                      ? `${blockchainStatus.provider} • Chain ${blockchainStatus.chainId} • Block #${blockchainStatus.blockNumber} • ${blockchainStatus.latency}ms`
+                      : blockchainStatus.error || "Connection issues detected"}
                 </Text>
+                {blockchainStatus.chainMismatch && (
+                  <Text style={[styles.settingDescription, { color: colors.warning }]}>
+                    Chain mismatch: provider is on {blockchainStatus.chainId}, app expects{" "}
+                    {blockchainStatus.expectedChainId}
+                  </Text>
+                )}
               </View>
             </View>
             <View style={styles.settingRight}>
               <StatusIndicator
-                connected={blockchainStatus.connected}
-                label={blockchainStatus.connected ? "Online" : "Offline"}
+                connected={blockchainStatus.connected && !blockchainStatus.chainMismatch}
+                label={blockchainStatus.connected ? (blockchainStatus.chainMismatch ? "Wrong Chain" : "Online") : "Offline"}
               />
               <TouchableOpacity onPress={checkBlockchainConnection} disabled={checkingConnection}>
                 <RefreshCw size={16} color={colors.primary} />
@@ -330,9 +334,18 @@ export default function SettingsScreen() {
                 <View style={styles.infoItem}>
                   <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>Blockchain:</Text>
                   <Text
-                    style={[styles.infoValue, { color: blockchainStatus.connected ? colors.success : colors.error }]}
+                    style={[
+                      styles.infoValue,
+                      {
+                        color: !blockchainStatus.connected
+                          ? colors.error
+                          : blockchainStatus.chainMismatch
+                            ? colors.warning
+                            : colors.success,
+                      },
+                    ]}
                   >
-                    {blockchainStatus.connected ? "Connected With Algorand" : "Disconnected"}
+                    {blockchainStatus.connected ? `Connected to ${blockchainStatus.provider}` : "Disconnected"}
                   </Text>
                 </View>
                 <View style={styles.infoItem}>
@@ -0,0 +1,81 @@
+// Generates the modules the Supabase edge functions share with the app.
+// Rules that the app and the server must apply identically (canonical form,
+// envelope parsing, sender ID normalization) live once in lib/; this script
+// copies them into supabase/functions/_shared/ with imports rewritten for
+// Deno.
+//
+//   node scripts/sync-edge-shared.js           write the generated files
+//   node scripts/sync-edge-shared.js --check   fail if any is out of date
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.resolve(__dirname, '..');
+const sharedDir = path.join('supabase', 'functions', '_shared');
+
+// lib/ module -> generated edge module
+const MODULES = {
+  'lib/canonical.ts': 'canonicalize.ts',
+  'lib/envelope.ts': 'envelope.ts',
+  'lib/senderId.ts': 'senderId.ts',
+};
+
+// npm packages as Deno imports them
+const NPM_IMPORTS = {
+  ethers: 'npm:ethers@6',
+};
+
+const rewriteImports = (source, file) =>
+  source.replace(/(from\s+)'([^']+)'/g, (statement, from, specifier) => {
+    if (NPM_IMPORTS[specifier]) {
+      return `${from}'${NPM_IMPORTS[specifier]}'`;
+    }
+
+    const target = specifier.startsWith('./')
+      ? `lib/${specifier.slice(2)}.ts`
+      : undefined;
+    if (target && MODULES[target]) {
+      return `${from}'./${MODULES[target]}'`;
+    }
+
+    throw new Error(
+      `${file}: cannot import '${specifier}' in an edge function`
+    );
+  });
+
+const generate = (file) => {
+  const source = fs.readFileSync(path.join(root, file), 'utf8');
+  return (
+    `// Generated from ${file} by scripts/sync-edge-shared.js; do not edit.\n` +
+    `// Change ${file} and run \`npm run sync:edge\`.\n\n` +
+    rewriteImports(source, file)
+  );
+};
+
+const check = process.argv.includes('--check');
+const stale = [];
+
+for (const [file, target] of Object.entries(MODULES)) {
+  const output = path.join(root, sharedDir, target);
+  const generated = generate(file);
+  const current = fs.existsSync(output)
+    ? fs.readFileSync(output, 'utf8')
+    : undefined;
+
+  if (current === generated) {
+    continue;
+  }
+  if (check) {
+    stale.push(path.join(sharedDir, target));
+  } else {
+    fs.writeFileSync(output, generated);
+    console.log(`Generated ${path.join(sharedDir, target)} from ${file}`);
+  }
+}
+
+if (stale.length > 0) {
+  console.error(
+    `Out of date with lib/: ${stale.join(', ')}. Run \`npm run sync:edge\`.`
+  );
+  process.exit(1);
+}
@@ -1,7 +1,20 @@
+import algosdk from 'algosdk';
+import nacl from 'tweetnacl';
+import { hashMessageContent } from '../lib/digest';
+import { decodeFlexibleBytes } from '../lib/encoding';
+import {
+  buildMerkleTree,
+  computeMerkleRoot,
+  getMerkleProof,
+  getMerkleRoot,
+  type MerkleProof,
+} from '../lib/merkle';
+
 interface AlgorandConfig {
   apiKey?: string;
   network: 'mainnet' | 'testnet' | 'betanet';
   baseUrl: string;
+  indexerUrl: string; // transaction lookups are indexer endpoints
   isFreeEndpoint: boolean;
 }
 
@@ -40,6 +53,7 @@ interface AlgorandTransaction {
   sender: string;
   'sender-rewards': number;
   'tx-type': string;
+  note?: string; // base64
   'payment-transaction'?: {
     amount: number;
     'close-amount': number;
@@ -87,6 +101,29 @@ interface AlgorandAsset {
   };
 }
 
+interface MessageAnchor {
+  transactionId: string;
+  confirmedRound: number;
+  messageHash: string;
+  sender: string;
+}
+
+interface AnchorVerificationResult {
+  isValid: boolean;
+  messageHash: string;
+  anchoredHash?: string;
+  merkleRoot?: string;
+  transactionId: string;
+  blockNumber?: number;
+  roundTime?: number;
+  sender?: string;
+  error?: string;
+}
+
+// Transaction notes carrying a message hash are tagged with this prefix so
+// anchors can be told apart from unrelated notes
+const MESSAGE_ANCHOR_NOTE_PREFIX = 'web3msg:v1:';
+
 class AlgorandService {
   private config: AlgorandConfig;
 
@@ -99,9 +136,10 @@ class AlgorandService {
    */
   private async makeRequest(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    baseUrl = this.config.baseUrl
   ): Promise<Response> {
-    const url = `${this.config.baseUrl}${endpoint}`;
+    const url = `${baseUrl}${endpoint}`;
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -191,19 +229,55 @@ class AlgorandService {
   }
 
   /**
-   * Get transaction by ID
+   * Get a confirmed transaction by ID from the indexer. A transaction the
+   * indexer has not caught up with yet is read from algod's pending pool,
+   * which keeps recently confirmed transactions.
    */
   async getTransaction(txId: string): Promise<AlgorandTransaction> {
     try {
-      const response = await this.makeRequest(`/v2/transactions/${txId}`);
+      const response = await this.makeRequest(
+        `/v2/transactions/${txId}`,
+        {},
+        this.config.indexerUrl
+      );
       const data = await response.json();
       return data.transaction;
     } catch (error) {
+      const recent = await this.getRecentlyConfirmedTransaction(txId).catch(
+        () => null
+      );
+      if (recent) {
+        return recent;
+      }
       console.error('Error fetching transaction:', error);
       throw new Error(`Failed to fetch transaction: ${error.message}`);
     }
   }
 
+  /**
+   * Read a confirmed transaction still held in algod's pending pool, in the
+   * indexer's shape. Null while it is unconfirmed.
+   */
+  private async getRecentlyConfirmedTransaction(
+    txId: string
+  ): Promise<AlgorandTransaction | null> {
+    const pending = await (
+      await this.makeRequest(`/v2/transactions/pending/${txId}`)
+    ).json();
+    if (!(pending['confirmed-round'] > 0)) {
+      return null;
+    }
+
+    const transaction = pending.txn?.txn || {};
+    return {
+      id: txId,
+      'confirmed-round': pending['confirmed-round'],
+      sender: transaction.snd && this.decodePublicKey(transaction.snd)?.address,
+      'tx-type': transaction.type,
+      note: transaction.note,
+    } as AlgorandTransaction;
+  }
+
   /**
    * Get block information
    */
@@ -565,7 +639,9 @@ class AlgorandService {
   }
 
   /**
-   * Verify Algorand message signature (mock implementation)
+   * Verify an Ed25519 message signature. Tries the Algorand signBytes
+   * convention ("MX" prefix) first, then a raw signature over the message.
+   * The public key may be an Algorand address or 32 raw key bytes (hex or base64).
    */
   async verifyAlgorandMessage(
     message: string,
@@ -577,51 +653,347 @@ class AlgorandService {
     error?: string;
   }> {
     try {
-      // Mock verification logic
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (message.length === 0) {
+        return { isValid: false, details: {}, error: 'Message is empty' };
+      }
 
-      // Simple validation based on format
-      const isValidSignature =
-        signature.length >= 64 && /^[0-9a-fA-F]+$/i.test(signature);
-      const isValidKey = publicKey.length >= 64;
-      const isValidMessage = message.length > 0;
+      const key = this.decodePublicKey(publicKey);
+      if (!key) {
+        return {
+          isValid: false,
+          details: {},
+          error:
+            'Public key must be an Algorand address or 32 bytes of hex/base64',
+        };
+      }
+
+      const signatureBytes = decodeFlexibleBytes(signature);
+      if (!signatureBytes || signatureBytes.length !== 64) {
+        return {
+          isValid: false,
+          details: { publicKeyFormat: key.format, address: key.address },
+          error: 'Signature must be 64 bytes of hex or base64',
+        };
+      }
 
-      const isValid = isValidSignature && isValidKey && isValidMessage;
+      const messageBytes = new TextEncoder().encode(message);
+      let convention: 'algorand_sign_bytes' | 'raw_ed25519' | undefined;
+
+      if (algosdk.verifyBytes(messageBytes, signatureBytes, key.address)) {
+        convention = 'algorand_sign_bytes';
+      } else if (
+        nacl.sign.detached.verify(messageBytes, signatureBytes, key.publicKey)
+      ) {
+        convention = 'raw_ed25519';
+      }
 
       return {
-        isValid,
+        isValid: convention !== undefined,
         details: {
           algorithm: 'Ed25519',
-          messageHash: this.hashMessage(message),
+          convention,
+          publicKeyFormat: key.format,
+          address: key.address,
+          messageHash: hashMessageContent(message),
           verifiedAt: new Date().toISOString(),
           network: this.config.network,
-          publicKey: publicKey.substring(0, 16) + '...',
+          publicKey: algosdk.bytesToHex(key.publicKey).substring(0, 16) + '...',
         },
-        error: isValid
+        error: convention
           ? undefined
-          : 'Invalid signature format or verification failed',
+          : 'Signature does not match the message under either the MX-prefixed or raw Ed25519 convention',
       };
     } catch (error) {
       return {
         isValid: false,
         details: {},
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Verification failed',
       };
     }
   }
 
   /**
-   * Hash message for verification
+   * Create a throwaway account and sign a message with the signBytes
+   * convention, for exercising verification end to end
    */
-  private hashMessage(message: string): string {
-    // Simple hash implementation for demo
-    let hash = 0;
-    for (let i = 0; i < message.length; i++) {
-      const char = message.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
+  generateSignedTestMessage(message: string): {
+    message: string;
+    signature: string;
+    address: string;
+  } {
+    const account = algosdk.generateAccount();
+    const signature = algosdk.signBytes(
+      new TextEncoder().encode(message),
+      account.sk
+    );
+    return {
+      message,
+      signature: algosdk.bytesToBase64(signature),
+      address: account.addr.toString(),
+    };
+  }
+
+  /**
+   * Encode a message hash as a transaction note
+   */
+  encodeAnchorNote(messageHash: string): Uint8Array {
+    if (!/^[0-9a-f]{64}$/.test(messageHash)) {
+      throw new Error('Message hash must be 64 lowercase hex characters');
+    }
+    return new TextEncoder().encode(MESSAGE_ANCHOR_NOTE_PREFIX + messageHash);
+  }
+
+  /**
+   * Extract the message hash from an anchor note, or null if the note was
+   * not written by encodeAnchorNote
+   */
+  decodeAnchorNote(note: Uint8Array): string | null {
+    const text = new TextDecoder().decode(note);
+    if (!text.startsWith(MESSAGE_ANCHOR_NOTE_PREFIX)) {
+      return null;
     }
-    return Math.abs(hash).toString(16).padStart(8, '0');
+
+    const messageHash = text.slice(MESSAGE_ANCHOR_NOTE_PREFIX.length);
+    return /^[0-9a-f]{64}$/.test(messageHash) ? messageHash : null;
+  }
+
+  /**
+   * Anchor a message hash on-chain as the note of a zero-amount payment from
+   * the signer to itself, and wait for it to be confirmed
+   */
+  async anchorMessageHash(
+    messageHash: string,
+    signer: { addr: string; sk: Uint8Array },
+    maxRounds = 10
+  ): Promise<MessageAnchor> {
+    try {
+      const params = await (
+        await this.makeRequest('/v2/transactions/params')
+      ).json();
+
+      const transaction = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: signer.addr,
+        receiver: signer.addr,
+        amount: 0,
+        note: this.encodeAnchorNote(messageHash),
+        suggestedParams: {
+          fee: params['min-fee'],
+          minFee: params['min-fee'],
+          flatFee: true,
+          firstValid: params['last-round'],
+          lastValid: params['last-round'] + 1000,
+          genesisID: params['genesis-id'],
+          genesisHash: algosdk.base64ToBytes(params['genesis-hash']),
+        },
+      });
+
+      await this.makeRequest('/v2/transactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-binary' },
+        body: transaction.signTxn(signer.sk),
+      });
+
+      const transactionId = transaction.txID();
+      const confirmedRound = await this.waitForConfirmation(
+        transactionId,
+        maxRounds
+      );
+
+      return {
+        transactionId,
+        confirmedRound,
+        messageHash,
+        sender: signer.addr,
+      };
+    } catch (error) {
+      console.error('Error anchoring message hash:', error);
+      throw new Error(
+        `Failed to anchor message hash: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Fetch an anchor transaction and check that its note carries the
+   * expected message hash. With `anchorAccounts` (Algorand addresses or
+   * Ed25519 public keys of the signer), the transaction must also have been
+   * sent from one of them; anyone can anchor a hash they have seen.
+   */
+  async verifyAnchoredMessageHash(
+    messageHash: string,
+    transactionId: string,
+    anchorAccounts?: string[]
+  ): Promise<AnchorVerificationResult> {
+    const result: AnchorVerificationResult = {
+      isValid: false,
+      messageHash,
+      transactionId,
+    };
+
+    try {
+      const transaction = await this.getTransaction(transactionId);
+      if (!transaction) {
+        return { ...result, error: 'Anchor transaction not found' };
+      }
+
+      result.blockNumber = transaction['confirmed-round'];
+      result.roundTime = transaction['round-time'];
+      result.sender = transaction.sender;
+
+      if (
+        anchorAccounts &&
+        !anchorAccounts.some(
+          (account) =>
+            this.decodePublicKey(account)?.address === transaction.sender
+        )
+      ) {
+        return {
+          ...result,
+          error: 'Anchor transaction was not sent by the message signer',
+        };
+      }
+
+      const anchoredHash = transaction.note
+        ? this.decodeAnchorNote(algosdk.base64ToBytes(transaction.note))
+        : null;
+      if (!anchoredHash) {
+        return { ...result, error: 'Transaction note is not a message anchor' };
+      }
+
+      result.anchoredHash = anchoredHash;
+      if (anchoredHash !== messageHash.toLowerCase()) {
+        return {
+          ...result,
+          error: 'Anchored hash does not match the message',
+        };
+      }
+
+      return { ...result, isValid: true };
+    } catch (error) {
+      return {
+        ...result,
+        error:
+          error instanceof Error ? error.message : 'Anchor verification failed',
+      };
+    }
+  }
+
+  /**
+   * Anchor a batch of message hashes with a single transaction. Only the
+   * Merkle root goes on-chain; each message travels with its own proof.
+   */
+  async anchorMessageBatch(
+    messageHashes: string[],
+    signer: { addr: string; sk: Uint8Array },
+    maxRounds = 10
+  ): Promise<{ anchor: MessageAnchor; proofs: MerkleProof[] }> {
+    const levels = buildMerkleTree(messageHashes);
+    const anchor = await this.anchorMessageHash(
+      getMerkleRoot(levels),
+      signer,
+      maxRounds
+    );
+
+    return {
+      anchor,
+      proofs: messageHashes.map((_, index) => getMerkleProof(levels, index)),
+    };
+  }
+
+  /**
+   * Verify that a message hash is included in a batch whose Merkle root is
+   * anchored in the given transaction
+   */
+  async verifyBatchInclusion(
+    messageHash: string,
+    proof: MerkleProof,
+    transactionId: string,
+    anchorAccounts?: string[]
+  ): Promise<AnchorVerificationResult> {
+    const root = computeMerkleRoot(messageHash, proof);
+    if (!root) {
+      return {
+        isValid: false,
+        messageHash,
+        transactionId,
+        error: 'Malformed Merkle inclusion proof',
+      };
+    }
+
+    const result = await this.verifyAnchoredMessageHash(
+      root,
+      transactionId,
+      anchorAccounts
+    );
+    return {
+      ...result,
+      messageHash,
+      merkleRoot: root,
+      error:
+        result.anchoredHash && !result.isValid
+          ? 'Message is not included in the anchored batch'
+          : result.error,
+    };
+  }
+
+  /**
+   * Poll the pending pool until a transaction is confirmed, giving up after
+   * maxRounds rounds
+   */
+  private async waitForConfirmation(
+    transactionId: string,
+    maxRounds: number
+  ): Promise<number> {
+    const status = await this.getStatus();
+    const startRound: number = status['last-round'];
+
+    for (let round = startRound; round < startRound + maxRounds; round++) {
+      const pending = await (
+        await this.makeRequest(`/v2/transactions/pending/${transactionId}`)
+      ).json();
+
+      if (pending['confirmed-round'] > 0) {
+        return pending['confirmed-round'];
+      }
+      if (pending['pool-error']) {
+        throw new Error(`Transaction rejected: ${pending['pool-error']}`);
+      }
+
+      await this.makeRequest(`/v2/status/wait-for-block-after/${round}`);
+    }
+
+    throw new Error(
+      `Transaction ${transactionId} not confirmed after ${maxRounds} rounds`
+    );
+  }
+
+  private decodePublicKey(publicKey: string): {
+    publicKey: Uint8Array;
+    address: string;
+    format: 'address' | 'hex' | 'base64';
+  } | null {
+    const trimmed = publicKey.trim();
+
+    if (algosdk.isValidAddress(trimmed)) {
+      return {
+        publicKey: algosdk.decodeAddress(trimmed).publicKey,
+        address: trimmed,
+        format: 'address',
+      };
+    }
+
+    const bytes = decodeFlexibleBytes(trimmed);
+    if (!bytes || bytes.length !== 32) {
+      return null;
+    }
+
+    return {
+      publicKey: bytes,
+      address: algosdk.encodeAddress(bytes),
+      format: /^(0x)?[0-9a-fA-F]+$/.test(trimmed) ? 'hex' : 'base64',
+    };
   }
 }
 
@@ -634,6 +1006,13 @@ const createAlgorandService = () => {
       | 'testnet'
       | 'betanet') || 'testnet';
   const customUrl = process.env.EXPO_PUBLIC_ALGORAND_API_URL;
+  const indexerUrl =
+    process.env.EXPO_PUBLIC_ALGORAND_INDEXER_URL ||
+    {
+      mainnet: 'https://mainnet-idx.4160.nodely.dev',
+      testnet: 'https://testnet-idx.4160.nodely.dev',
+      betanet: 'https://betanet-idx.4160.nodely.dev',
+    }[network];
 
   // Determine if using free tier
   const isFreeEndpoint = !apiKey || apiKey.trim() === '';
@@ -665,14 +1044,17 @@ const createAlgorandService = () => {
     apiKey: apiKey || undefined,
     network,
     baseUrl,
+    indexerUrl,
     isFreeEndpoint,
   });
 };
 
 export const algorandService = createAlgorandService();
 
-export { AlgorandService };
+export { AlgorandService, MESSAGE_ANCHOR_NOTE_PREFIX };
 export type {
+  MessageAnchor,
+  AnchorVerificationResult,
   AlgorandConfig,
   AlgorandAccount,
   AlgorandTransaction,
@@ -0,0 +1,598 @@
+// DID Resolution Service
+// A registry of DID method drivers (did:key, did:web, did:ethr) with per-driver
+// caching and structural validation of the resolved documents
+
+import {
+  Interface,
+  SigningKey,
+  ZeroAddress,
+  decodeBytes32String,
+  encodeBase58,
+  getAddress,
+  hexlify,
+  isAddress,
+  toUtf8String,
+  zeroPadValue,
+} from 'ethers';
+import { base58ToBytes } from '../lib/encoding';
+import { JsonRpcClient, type Fetcher } from './JsonRpcClient';
+
+interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyHex?: string;
+  publicKeyBase58?: string;
+  publicKeyJwk?: Record<string, any>;
+  blockchainAccountId?: string;
+}
+
+interface ServiceEndpoint {
+  id: string;
+  type: string;
+  serviceEndpoint: string | Record<string, any> | any[];
+}
+
+interface DIDDocument {
+  '@context'?: string | string[];
+  id: string;
+  controller?: string | string[];
+  verificationMethod?: VerificationMethod[];
+  authentication?: (string | VerificationMethod)[];
+  assertionMethod?: (string | VerificationMethod)[];
+  capabilityInvocation?: (string | VerificationMethod)[];
+  capabilityDelegation?: (string | VerificationMethod)[];
+  service?: ServiceEndpoint[];
+}
+
+interface ParsedDID {
+  did: string;
+  method: string;
+  identifier: string;
+}
+
+interface DIDMethodDriver {
+  method: string;
+  // How long a resolved document may be served from cache
+  cacheTtlMs: number;
+  resolve(parsed: ParsedDID): Promise<DIDDocument>;
+}
+
+const DID_CONTEXT = [
+  'https://www.w3.org/ns/did/v1',
+  'https://w3id.org/security/suites/secp256k1recovery-2020/v2',
+];
+
+const VERIFICATION_RELATIONSHIPS = [
+  'authentication',
+  'assertionMethod',
+  'capabilityInvocation',
+  'capabilityDelegation',
+] as const;
+
+const KEY_MATERIAL_FIELDS = [
+  'publicKeyMultibase',
+  'publicKeyHex',
+  'publicKeyBase58',
+  'publicKeyJwk',
+  'blockchainAccountId',
+] as const;
+
+/**
+ * Split a DID into its method and method-specific identifier
+ */
+export const parseDID = (did: string): ParsedDID => {
+  const match = did.match(/^did:([a-z0-9]+):([A-Za-z0-9._%:-]+)$/);
+  if (!match) {
+    throw new Error(`Invalid DID format: ${did}`);
+  }
+  return { did, method: match[1], identifier: match[2] };
+};
+
+/**
+ * Check the document is structurally sound: it describes the requested DID,
+ * every verification method carries key material, and every relationship
+ * reference points at a declared verification method
+ */
+export const validateDIDDocument = (
+  document: DIDDocument,
+  did: string
+): void => {
+  if (!document || typeof document !== 'object') {
+    throw new Error('DID document is not an object');
+  }
+  if (document.id !== did) {
+    throw new Error(`DID document id ${document.id} does not match ${did}`);
+  }
+
+  const methods = document.verificationMethod || [];
+  if (!Array.isArray(methods)) {
+    throw new Error('verificationMethod must be an array');
+  }
+
+  const methodIds = new Set<string>();
+  for (const method of methods) {
+    if (!method?.id || !method.type || !method.controller) {
+      throw new Error('Verification method is missing id, type or controller');
+    }
+    if (!KEY_MATERIAL_FIELDS.some((field) => method[field] !== undefined)) {
+      throw new Error(`Verification method ${method.id} has no key material`);
+    }
+    methodIds.add(absoluteId(method.id, did));
+  }
+
+  for (const relationship of VERIFICATION_RELATIONSHIPS) {
+    const entries = document[relationship];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries)) {
+      throw new Error(`${relationship} must be an array`);
+    }
+    for (const entry of entries) {
+      if (typeof entry === 'string') {
+        if (!methodIds.has(absoluteId(entry, did))) {
+          throw new Error(
+            `${relationship} references unknown verification method ${entry}`
+          );
+        }
+      } else if (!entry?.id || !entry.type) {
+        throw new Error(`${relationship} contains an invalid embedded method`);
+      }
+    }
+  }
+
+  for (const service of document.service || []) {
+    if (!service?.id || !service.type || !service.serviceEndpoint) {
+      throw new Error('Service is missing id, type or serviceEndpoint');
+    }
+  }
+};
+
+const absoluteId = (id: string, did: string): string =>
+  id.startsWith('#') ? `${did}${id}` : id;
+
+/**
+ * Collect the verification methods a document lists under the given
+ * relationships, dereferencing string references and dropping duplicates
+ */
+export const getVerificationMethodsFor = (
+  document: DIDDocument,
+  relationships: Array<(typeof VERIFICATION_RELATIONSHIPS)[number]>
+): VerificationMethod[] => {
+  const declared = new Map(
+    (document.verificationMethod || []).map((method) => [
+      absoluteId(method.id, document.id),
+      method,
+    ])
+  );
+  const selected = new Map<string, VerificationMethod>();
+
+  for (const relationship of relationships) {
+    for (const entry of document[relationship] || []) {
+      const method =
+        typeof entry === 'string'
+          ? declared.get(absoluteId(entry, document.id))
+          : entry;
+      if (method) {
+        const id = absoluteId(method.id, document.id);
+        selected.set(id, { ...method, id });
+      }
+    }
+  }
+
+  return Array.from(selected.values());
+};
+
+/**
+ * did:key - the document is derived entirely from the identifier, so it
+ * resolves offline. Supports Ed25519 and secp256k1 multicodec keys.
+ */
+class KeyDIDDriver implements DIDMethodDriver {
+  method = 'key';
+  cacheTtlMs = Number.POSITIVE_INFINITY;
+
+  async resolve({ did, identifier }: ParsedDID): Promise<DIDDocument> {
+    if (!identifier.startsWith('z')) {
+      throw new Error('did:key identifiers must be base58btc multibase');
+    }
+
+    const bytes = base58ToBytes(identifier.slice(1));
+    let type: string;
+    let publicKey: Uint8Array;
+
+    if (bytes[0] === 0xed && bytes[1] === 0x01 && bytes.length === 34) {
+      type = 'Ed25519VerificationKey2020';
+      publicKey = bytes.slice(2);
+    } else if (bytes[0] === 0xe7 && bytes[1] === 0x01 && bytes.length === 35) {
+      type = 'EcdsaSecp256k1VerificationKey2019';
+      publicKey = bytes.slice(2);
+    } else {
+      throw new Error('Unsupported did:key multicodec');
+    }
+
+    const keyId = `${did}#${identifier}`;
+    return {
+      '@context': [
+        'https://www.w3.org/ns/did/v1',
+        'https://w3id.org/security/multikey/v1',
+      ],
+      id: did,
+      verificationMethod: [
+        {
+          id: keyId,
+          type,
+          controller: did,
+          publicKeyMultibase: identifier,
+          publicKeyHex: hexlify(publicKey).slice(2),
+        },
+      ],
+      authentication: [keyId],
+      assertionMethod: [keyId],
+      capabilityInvocation: [keyId],
+      capabilityDelegation: [keyId],
+    };
+  }
+}
+
+/**
+ * did:web - fetches did.json from the domain (and optional path) the
+ * identifier encodes
+ */
+class WebDIDDriver implements DIDMethodDriver {
+  method = 'web';
+  cacheTtlMs = 5 * 60 * 1000;
+  private fetcher: Fetcher;
+
+  constructor(fetcher?: Fetcher) {
+    this.fetcher = fetcher || ((input, init) => fetch(input, init));
+  }
+
+  static documentUrl(identifier: string): string {
+    const [domain, ...path] = identifier.split(':').map(decodeURIComponent);
+    if (!domain || /[/?#@]/.test(domain)) {
+      throw new Error(`Invalid did:web domain: ${domain}`);
+    }
+    return path.length > 0
+      ? `https://${domain}/${path.join('/')}/did.json`
+      : `https://${domain}/.well-known/did.json`;
+  }
+
+  async resolve({ identifier }: ParsedDID): Promise<DIDDocument> {
+    const response = await this.fetcher(WebDIDDriver.documentUrl(identifier), {
+      method: 'GET',
+      headers: { Accept: 'application/did+json, application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`did:web fetch failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as DIDDocument;
+  }
+}
+
+// ERC-1056 EthereumDIDRegistry
+const ethrRegistryInterface = new Interface([
+  'function identityOwner(address identity) view returns (address)',
+  'function changed(address identity) view returns (uint256)',
+  'event DIDOwnerChanged(address indexed identity, address owner, uint256 previousChange)',
+  'event DIDDelegateChanged(address indexed identity, bytes32 delegateType, address delegate, uint256 validTo, uint256 previousChange)',
+  'event DIDAttributeChanged(address indexed identity, bytes32 name, bytes value, uint256 validTo, uint256 previousChange)',
+]);
+
+const DEFAULT_ETHR_REGISTRY = '0xdca7ef03e98e0dc2b855be647c39abe984fcf21b';
+const MAX_ETHR_HISTORY_BLOCKS = 100;
+
+const ETHR_NETWORK_NAMES: Record<string, number> = {
+  mainnet: 1,
+  sepolia: 11155111,
+  polygon: 137,
+};
+
+/**
+ * did:ethr - reads the owner and change history of an identity from the
+ * ERC-1056 registry over JSON-RPC
+ */
+class EthrDIDDriver implements DIDMethodDriver {
+  method = 'ethr';
+  cacheTtlMs = 60 * 1000;
+  private rpcClient: JsonRpcClient;
+  private chainId: number;
+  private registry: string;
+
+  constructor(
+    rpcClient: JsonRpcClient,
+    chainId: number,
+    registry: string = DEFAULT_ETHR_REGISTRY
+  ) {
+    this.rpcClient = rpcClient;
+    this.chainId = chainId;
+    this.registry = getAddress(registry);
+  }
+
+  async resolve({ did, identifier }: ParsedDID): Promise<DIDDocument> {
+    const { chainId, identity } = this.parseIdentifier(identifier);
+    if (chainId !== this.chainId) {
+      throw new Error(
+        `did:ethr network ${chainId} is not served by the configured chain ${this.chainId}`
+      );
+    }
+
+    const owner = getAddress(
+      ethrRegistryInterface.decodeFunctionResult(
+        'identityOwner',
+        await this.rpcClient.call({
+          to: this.registry,
+          data: ethrRegistryInterface.encodeFunctionData('identityOwner', [
+            identity,
+          ]),
+        })
+      )[0]
+    );
+
+    if (owner === ZeroAddress) {
+      throw new Error(`${did} has been deactivated`);
+    }
+
+    const controllerId = `${did}#controller`;
+    const document: DIDDocument = {
+      '@context': DID_CONTEXT,
+      id: did,
+      verificationMethod: [
+        {
+          id: controllerId,
+          type: 'EcdsaSecp256k1RecoveryMethod2020',
+          controller: did,
+          blockchainAccountId: `eip155:${this.chainId}:${owner}`,
+        },
+      ],
+      authentication: [controllerId],
+      assertionMethod: [controllerId],
+      service: [],
+    };
+
+    this.applyHistory(document, await this.readHistory(identity), did);
+    return document;
+  }
+
+  private parseIdentifier(identifier: string): {
+    chainId: number;
+    identity: string;
+  } {
+    const parts = identifier.split(':');
+    const id = parts.pop()!;
+    const network = parts.pop();
+
+    let chainId = this.chainId;
+    if (network !== undefined) {
+      chainId = network.startsWith('0x')
+        ? Number(network)
+        : ETHR_NETWORK_NAMES[network] ?? NaN;
+      if (Number.isNaN(chainId)) {
+        throw new Error(`Unknown did:ethr network: ${network}`);
+      }
+    }
+
+    if (isAddress(id)) {
+      return { chainId, identity: getAddress(id) };
+    }
+    if (/^0x0[23][0-9a-fA-F]{64}$/.test(id)) {
+      // Compressed public key identifiers map to the key's address
+      return {
+        chainId,
+        identity: getAddress(
+          '0x' + SigningKey.computePublicKey(id, false).slice(-40)
+        ),
+      };
+    }
+    throw new Error(`Invalid did:ethr identifier: ${id}`);
+  }
+
+  private async readHistory(identity: string) {
+    const events: any[] = [];
+    let block = Number(
+      ethrRegistryInterface.decodeFunctionResult(
+        'changed',
+        await this.rpcClient.call({
+          to: this.registry,
+          data: ethrRegistryInterface.encodeFunctionData('changed', [identity]),
+        })
+      )[0]
+    );
+
+    for (let i = 0; block > 0 && i < MAX_ETHR_HISTORY_BLOCKS; i++) {
+      const blockTag = '0x' + block.toString(16);
+      const logs = await this.rpcClient.request<any[]>('eth_getLogs', [
+        {
+          address: this.registry,
+          fromBlock: blockTag,
+          toBlock: blockTag,
+          topics: [null, zeroPadValue(identity, 32)],
+        },
+      ]);
+
+      let previous = 0;
+      for (const log of logs.reverse()) {
+        const parsed = ethrRegistryInterface.parseLog(log);
+        if (!parsed) continue;
+        events.unshift(parsed);
+        const change = Number(parsed.args.previousChange);
+        if (change < block) previous = Math.max(previous, change);
+      }
+      block = previous;
+    }
+
+    return events;
+  }
+
+  private applyHistory(document: DIDDocument, events: any[], did: string) {
+    const now = Math.floor(Date.now() / 1000);
+    const methods = new Map<
+      string,
+      { method: VerificationMethod; usage: string }
+    >();
+    const services = new Map<string, ServiceEndpoint>();
+    let delegateCount = 0;
+    let serviceCount = 0;
+
+    for (const event of events) {
+      if (event.name === 'DIDDelegateChanged') {
+        const delegateType = decodeBytes32String(event.args.delegateType);
+        const key = `${delegateType}-${event.args.delegate}`;
+        delegateCount++;
+        if (Number(event.args.validTo) <= now) {
+          methods.delete(key);
+          continue;
+        }
+        methods.set(key, {
+          usage: delegateType,
+          method: {
+            id: `${did}#delegate-${delegateCount}`,
+            type: 'EcdsaSecp256k1RecoveryMethod2020',
+            controller: did,
+            blockchainAccountId: `eip155:${this.chainId}:${getAddress(
+              event.args.delegate
+            )}`,
+          },
+        });
+      } else if (event.name === 'DIDAttributeChanged') {
+        const name = decodeBytes32String(event.args.name);
+        const value: string = event.args.value;
+        const key = `${name}-${value}`;
+        const expired = Number(event.args.validTo) <= now;
+
+        const pub = name.match(
+          /^did\/pub\/(Secp256k1|Ed25519)\/(veriKey|sigAuth)(?:\/(hex|base58|base64))?$/
+        );
+        if (pub) {
+          delegateCount++;
+          if (expired) {
+            methods.delete(key);
+            continue;
+          }
+          methods.set(key, {
+            usage: pub[2],
+            method: {
+              id: `${did}#delegate-${delegateCount}`,
+              type:
+                pub[1] === 'Ed25519'
+                  ? 'Ed25519VerificationKey2018'
+                  : 'EcdsaSecp256k1VerificationKey2019',
+              controller: did,
+              ...(pub[3] === 'base58'
+                ? { publicKeyBase58: encodeBase58(value) }
+                : { publicKeyHex: value.slice(2) }),
+            },
+          });
+          continue;
+        }
+
+        const svc = name.match(/^did\/svc\/(.+)$/);
+        if (svc) {
+          serviceCount++;
+          if (expired) {
+            services.delete(key);
+            continue;
+          }
+          services.set(key, {
+            id: `${did}#service-${serviceCount}`,
+            type: svc[1],
+            serviceEndpoint: toUtf8String(value),
+          });
+        }
+      }
+    }
+
+    for (const { method, usage } of methods.values()) {
+      document.verificationMethod!.push(method);
+      document.assertionMethod!.push(method.id);
+      if (usage === 'sigAuth') {
+        document.authentication!.push(method.id);
+      }
+    }
+    document.service = Array.from(services.values());
+  }
+}
+
+class DIDResolver {
+  private drivers = new Map<string, DIDMethodDriver>();
+  private cache = new Map<
+    string,
+    { document: DIDDocument; expiresAt: number }
+  >();
+
+  /**
+   * Register (or replace) the driver for a DID method
+   */
+  register(driver: DIDMethodDriver): this {
+    this.drivers.set(driver.method, driver);
+    return this;
+  }
+
+  supportedMethods(): string[] {
+    return Array.from(this.drivers.keys());
+  }
+
+  /**
+   * Resolve a DID through its method driver, serving fresh cache entries
+   * and validating every newly resolved document
+   */
+  async resolve(did: string): Promise<DIDDocument> {
+    const parsed = parseDID(did);
+    const driver = this.drivers.get(parsed.method);
+    if (!driver) {
+      throw new Error(`Unsupported DID method: did:${parsed.method}`);
+    }
+
+    const cached = this.cache.get(did);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+
+    const document = await driver.resolve(parsed);
+    validateDIDDocument(document, did);
+
+    this.cache.set(did, {
+      document,
+      expiresAt: Date.now() + driver.cacheTtlMs,
+    });
+    return document;
+  }
+
+  clearCache(did?: string): void {
+    if (did) {
+      this.cache.delete(did);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+/**
+ * Build a resolver with the built-in did:key, did:web and did:ethr drivers
+ */
+export const createDIDResolver = (options: {
+  rpcClient: JsonRpcClient;
+  chainId: number;
+  fetcher?: Fetcher;
+  ethrRegistry?: string;
+}): DIDResolver =>
+  new DIDResolver()
+    .register(new KeyDIDDriver())
+    .register(new WebDIDDriver(options.fetcher))
+    .register(
+      new EthrDIDDriver(
+        options.rpcClient,
+        options.chainId,
+        options.ethrRegistry
+      )
+    );
+
+export { DIDResolver, KeyDIDDriver, WebDIDDriver, EthrDIDDriver };
+export type {
+  DIDDocument,
+  DIDMethodDriver,
+  ParsedDID,
+  ServiceEndpoint,
+  VerificationMethod,
+};
@@ -0,0 +1,182 @@
+// Ethereum JSON-RPC client
+// The fetcher is injectable so a local JSON-RPC stand-in can replace the network
+
+type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+// Answers one JSON-RPC method of a stand-in node; throwing reports an error
+type StandInHandler = (params: any[]) => unknown | Promise<unknown>;
+
+interface TransactionReceipt {
+  transactionHash: string;
+  blockHash: string;
+  blockNumber: string;
+  from: string;
+  to: string | null;
+  status?: string;
+  gasUsed: string;
+  logs: any[];
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+class JsonRpcClient {
+  private url: string;
+  private fetcher: Fetcher;
+  private timeoutMs: number;
+  private nextId = 1;
+
+  constructor(url: string, fetcher?: Fetcher, timeoutMs = 10000) {
+    this.url = url;
+    this.fetcher = fetcher || ((input, init) => fetch(input, init));
+    this.timeoutMs = timeoutMs;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  setUrl(url: string): void {
+    this.url = url;
+  }
+
+  /**
+   * Send a single JSON-RPC request and return its result. Requests that take
+   * longer than the client timeout are aborted.
+   */
+  async request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    const id = this.nextId++;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`${method} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+
+    try {
+      const response = await Promise.race([
+        this.fetcher(this.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+          },
+          body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+          signal: controller.signal,
+        }),
+        timeout,
+      ]);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const payload = (await Promise.race([
+        response.json(),
+        timeout,
+      ])) as JsonRpcResponse<T>;
+      if (payload.error) {
+        throw new Error(
+          `JSON-RPC error ${payload.error.code}: ${payload.error.message}`
+        );
+      }
+
+      return payload.result as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run a request and measure its round-trip time in milliseconds
+   */
+  async timedRequest<T = any>(
+    method: string,
+    params: unknown[] = []
+  ): Promise<{ result: T; latency: number }> {
+    const startTime = Date.now();
+    const result = await this.request<T>(method, params);
+    return { result, latency: Date.now() - startTime };
+  }
+
+  async getChainId(): Promise<number> {
+    return Number(await this.request<string>('eth_chainId'));
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return Number(await this.request<string>('eth_blockNumber'));
+  }
+
+  async getTransactionReceipt(
+    transactionHash: string
+  ): Promise<TransactionReceipt | null> {
+    return this.request<TransactionReceipt | null>(
+      'eth_getTransactionReceipt',
+      [transactionHash]
+    );
+  }
+
+  async getClientVersion(): Promise<string> {
+    return this.request<string>('web3_clientVersion');
+  }
+
+  async getCode(address: string, blockTag = 'latest'): Promise<string> {
+    return this.request<string>('eth_getCode', [address, blockTag]);
+  }
+
+  async call(
+    transaction: { to: string; data: string },
+    blockTag = 'latest'
+  ): Promise<string> {
+    return this.request<string>('eth_call', [transaction, blockTag]);
+  }
+}
+
+/**
+ * Fetcher for a local JSON-RPC stand-in: requests are answered in process by
+ * per-method handlers instead of a node, so flows that depend on chain state
+ * can be exercised offline. Unknown methods get "method not found".
+ */
+const createStandInFetcher =
+  (handlers: Record<string, StandInHandler>): Fetcher =>
+  async (_url, init) => {
+    const { id, method, params } = JSON.parse(String(init.body));
+    const handler = handlers[method];
+    let payload: JsonRpcResponse<unknown>;
+
+    if (!handler) {
+      payload = {
+        jsonrpc: '2.0',
+        id,
+        error: { code: -32601, message: `Method ${method} not found` },
+      };
+    } else {
+      try {
+        payload = { jsonrpc: '2.0', id, result: await handler(params || []) };
+      } catch (error) {
+        payload = {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32000,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    }
+
+    return new Response(JSON.stringify(payload), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+export { JsonRpcClient, createStandInFetcher };
+export type { Fetcher, StandInHandler, TransactionReceipt };
@@ -0,0 +1,85 @@
+// Local notifications for verification results
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+export interface VerificationNotice {
+  verified: boolean;
+  // Signature valid but sent from an address the signer did not register
+  unexpectedSender?: boolean;
+  sender?: string | null;
+  organizationName?: string;
+  content: string;
+  message?: string; // verdict explanation from the verification service
+}
+
+const PREVIEW_LENGTH = 80;
+
+class NotificationService {
+  private handlerInstalled = false;
+
+  /**
+   * Show a notification with the verdict for a verified message. Does
+   * nothing without notification permission; permission is requested by
+   * PermissionService, not here.
+   */
+  async notifyVerificationResult(notice: VerificationNotice): Promise<boolean> {
+    if (Platform.OS === 'web') {
+      return false;
+    }
+
+    try {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') {
+        return false;
+      }
+
+      this.installHandler();
+
+      const from =
+        notice.organizationName || notice.sender || 'an unknown sender';
+      const preview =
+        notice.content.length > PREVIEW_LENGTH
+          ? `${notice.content.slice(0, PREVIEW_LENGTH - 1)}…`
+          : notice.content;
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: !notice.verified
+            ? `Unverified message from ${from}`
+            : notice.unexpectedSender
+            ? `Warning: unexpected sender for ${from}`
+            : `Verified message from ${from}`,
+          body: notice.message ? `${notice.message}\n${preview}` : preview,
+          data: {
+            verified: notice.verified,
+            unexpectedSender: !!notice.unexpectedSender,
+          },
+        },
+        trigger: null,
+      });
+      return true;
+    } catch (error) {
+      console.error('Verification notification error:', error);
+      return false;
+    }
+  }
+
+  // Show notifications while the app is in the foreground too
+  private installHandler() {
+    if (this.handlerInstalled) {
+      return;
+    }
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+    this.handlerInstalled = true;
+  }
+}
+
+export const notificationService = new NotificationService();
+export default NotificationService;
@@ -0,0 +1,98 @@
+// SMS inbox access behind an interface, so SMSService can be given a fake
+// inbox in tests and on platforms without one
+
+import { Platform } from 'react-native';
+import SmsAndroid, {
+  type SmsAndroidMessage,
+  type SmsListFilter,
+} from 'react-native-get-sms-android';
+import { androidCompatibilityService } from './AndroidCompatibilityService';
+import type { SMSRecord } from './SMSService';
+
+export interface SMSInboxQuery {
+  offset?: number;
+  limit?: number;
+  since?: number; // ms since epoch, inclusive
+  until?: number; // ms since epoch, inclusive
+  sender?: string; // exact address as stored by the inbox
+  read?: boolean; // only read (true) or unread (false) messages
+}
+
+export interface SMSInboxPage {
+  messages: SMSRecord[];
+  // Offset of the next page, absent on the last one
+  nextOffset?: number;
+}
+
+export interface SMSInboxAccess {
+  granted: boolean;
+  message: string;
+}
+
+export interface SMSInboxReader {
+  // Whether this platform has an inbox the reader can open at all
+  isAvailable(): boolean;
+  requestAccess(): Promise<SMSInboxAccess>;
+  // Newest messages first
+  list(query?: SMSInboxQuery): Promise<SMSInboxPage>;
+}
+
+/**
+ * Android inbox read through react-native-get-sms-android, with READ_SMS
+ * requested by AndroidCompatibilityService
+ */
+export class AndroidSMSInboxReader implements SMSInboxReader {
+  isAvailable(): boolean {
+    return Platform.OS === 'android' && !!SmsAndroid?.list;
+  }
+
+  async requestAccess(): Promise<SMSInboxAccess> {
+    const { granted, message } =
+      await androidCompatibilityService.requestSMSPermissions();
+    return { granted, message };
+  }
+
+  list(query: SMSInboxQuery = {}): Promise<SMSInboxPage> {
+    const { offset = 0, limit = 50, since, until, sender, read } = query;
+
+    // The native filter applies only one of read/address, so the read state
+    // goes into the SQL selection, which combines with everything else
+    const filter: SmsListFilter = {
+      box: 'inbox',
+      indexFrom: offset,
+      maxCount: limit,
+      sortOrder: 'date DESC',
+      ...(sender && { address: sender.trim() }),
+      ...(read !== undefined && { selection: `read = ${read ? 1 : 0}` }),
+      ...(since !== undefined && { minDate: since }),
+      ...(until !== undefined && { maxDate: until }),
+    };
+
+    return new Promise((resolve, reject) => {
+      SmsAndroid.list(
+        JSON.stringify(filter),
+        (error) => reject(new Error(`SMS inbox query failed: ${error}`)),
+        (_count, smsList) => {
+          try {
+            const rows: SmsAndroidMessage[] = JSON.parse(smsList);
+            resolve({
+              messages: rows.map((row) => ({
+                _id: String(row._id),
+                address: row.address,
+                body: row.body,
+                date: Number(row.date),
+                type: row.type,
+                read: row.read,
+              })),
+              nextOffset: rows.length === limit ? offset + limit : undefined,
+            });
+          } catch (error) {
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+}
+
+export const androidSMSInboxReader = new AndroidSMSInboxReader();
@@ -0,0 +1,136 @@
+// Sources of incoming SMS for live monitoring. SMSService runs whichever
+// source it is given, so demo mode and tests can stand in for the device.
+
+import type { SMSInboxReader } from './SMSInboxReader';
+import type { SMSRecord } from './SMSService';
+
+export interface SMSIncomingSource {
+  readonly kind: 'native' | 'demo' | string;
+  // Start delivering new messages; resolves to a function that stops
+  start(onMessage: (sms: SMSRecord) => void): Promise<() => void>;
+}
+
+const INBOX_POLL_INTERVAL_MS = 10 * 1000;
+const INBOX_PAGE_SIZE = 100;
+
+// How long a segment of a multi-part SMS waits for its siblings before it is
+// delivered on its own
+const SEGMENT_WAIT_MS = 2 * 60 * 1000;
+
+// Rejoins the segments of multi-part SMS within a batch
+type Reassembler = (messages: SMSRecord[]) => SMSRecord[];
+
+/**
+ * New inbox messages, found by polling the inbox reader for anything
+ * received since the previous poll. react-native-get-sms-android has no
+ * broadcast receiver, and polling needs only READ_SMS. Each poll pages
+ * through everything received since the last one, and segments of
+ * multi-part messages are held back until their siblings arrive so they are
+ * delivered whole.
+ */
+export class InboxPollingSource implements SMSIncomingSource {
+  readonly kind = 'native';
+
+  constructor(
+    private reader: SMSInboxReader,
+    private reassemble: Reassembler = (messages) => messages,
+    private intervalMs = INBOX_POLL_INTERVAL_MS,
+    private segmentWaitMs = SEGMENT_WAIT_MS
+  ) {}
+
+  async start(onMessage: (sms: SMSRecord) => void): Promise<() => void> {
+    let since = Date.now();
+    // Ids already delivered at the `since` timestamp, which the inclusive
+    // date filter returns again
+    let seenAtSince = new Set<string>();
+    // Segments still waiting for the rest of their message
+    let pending: SMSRecord[] = [];
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      try {
+        const received = await this.listSince(since);
+        const fresh = received
+          .filter((sms) => !(sms.date === since && seenAtSince.has(sms._id)))
+          .sort((a, b) => a.date - b.date);
+
+        for (const sms of fresh) {
+          if (sms.date > since) {
+            since = sms.date;
+            seenAtSince = new Set();
+          }
+          seenAtSince.add(sms._id);
+        }
+
+        const batch = this.reassemble([...pending, ...fresh]).sort(
+          (a, b) => a.date - b.date
+        );
+        const now = Date.now();
+        pending = [];
+        for (const sms of batch) {
+          const incomplete =
+            sms.concatRef !== undefined &&
+            (sms.partCount ?? 0) > 1 &&
+            sms.parts === undefined;
+          if (incomplete && now - sms.date < this.segmentWaitMs) {
+            pending.push(sms);
+          } else {
+            onMessage(sms);
+          }
+        }
+      } catch (error) {
+        console.error('Inbox polling error:', error);
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = setInterval(poll, this.intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Every message received from `since` up to now, read page by page. The
+   * upper bound keeps offsets stable while messages keep arriving.
+   */
+  private async listSince(since: number): Promise<SMSRecord[]> {
+    const until = Date.now();
+    const messages: SMSRecord[] = [];
+    let offset: number | undefined = 0;
+
+    while (offset !== undefined) {
+      const page = await this.reader.list({
+        since,
+        until,
+        offset,
+        limit: INBOX_PAGE_SIZE,
+      });
+      messages.push(...page.messages);
+      offset = page.nextOffset;
+    }
+
+    return messages;
+  }
+}
+
+/**
+ * Scripted messages delivered after fixed delays
+ */
+export class DemoSMSSource implements SMSIncomingSource {
+  readonly kind = 'demo';
+
+  constructor(
+    private script: () => Array<{ message: SMSRecord; delay: number }>
+  ) {}
+
+  async start(onMessage: (sms: SMSRecord) => void): Promise<() => void> {
+    const timers = this.script().map(({ message, delay }) =>
+      setTimeout(() => onMessage(message), delay)
+    );
+    return () => timers.forEach(clearTimeout);
+  }
+}
@@ -1,8 +1,36 @@
 import { Platform } from 'react-native';
-
-interface ParsedSMS {
+import {
+  CURRENT_CANONICALIZATION_VERSION,
+  canonicalizeMessage,
+  type CanonicalizationVersion,
+} from '../lib/canonical';
+import {
+  DEFAULT_CALLING_CODE,
+  normalizeSenderId,
+  type NormalizedSenderId,
+} from '../lib/senderId';
+import { serializeSigText, type SigTextHeader } from '../lib/sigtext';
+import {
+  containsSignatureBlock,
+  parseSignatureBlocks,
+} from '../lib/signatureFormats';
+import {
+  androidSMSInboxReader,
+  type SMSInboxQuery,
+  type SMSInboxReader,
+} from './SMSInboxReader';
+import {
+  DemoSMSSource,
+  InboxPollingSource,
+  type SMSIncomingSource,
+} from './SMSIncomingSource';
+
+export interface ParsedSMS {
   originalMessage: string;
   extractedContent: string;
+  // Text the signature covers: the content for legacy blocks, the content
+  // followed by the header for SigText
+  signedContent: string;
   signature: string | null;
   sender: string | null;
   timestamp: number;
@@ -10,16 +38,37 @@ interface ParsedSMS {
     phoneNumber?: string;
     messageId?: string;
     signatureBlock?: string;
+    signatureFormat?: string;
+    senderAddress?: string; // DID or address carried by the signature block
+    sigText?: SigTextHeader;
     androidVersion?: string;
+    canonicalizationVersion?: CanonicalizationVersion;
   };
 }
 
-interface SMSSignaturePattern {
-  name: string;
-  pattern: RegExp;
-  extractor: (match: RegExpMatchArray) => string;
+export interface SMSRecord {
+  _id: string;
+  address: string;
+  body: string;
+  date: number;
+  type: number;
+  read: number;
+  // Concatenation header (UDH) of one segment, when the inbox exposes it
+  concatRef?: number;
+  partNumber?: number; // 1-based
+  partCount?: number;
+  // Set on messages rejoined from several segments
+  parts?: number;
+  partIds?: string[];
 }
 
+// Segments of one concatenated SMS arrive within this window of each other
+const SEGMENT_WINDOW_MS = 2 * 60 * 1000;
+
+// Segments without a concatenation reference are only rejoined in small
+// groups, since every ordering of the group is tried
+const MAX_UNREFERENCED_PARTS = 4;
+
 // Helper function to generate realistic wallet addresses
 const generateRealisticWalletAddress = (): string => {
   const chars = '0123456789abcdef';
@@ -31,38 +80,9 @@ const generateRealisticWalletAddress = (): string => {
 };
 
 class SMSService {
-  private signaturePatterns: SMSSignaturePattern[] = [
-    {
-      name: 'standard_hex',
-      pattern: /\[SIG:([0-9a-fA-F]{64,})\]/i,
-      extractor: (match) => match[1],
-    },
-    {
-      name: 'base64_signature',
-      pattern: /\[SIGNATURE:([A-Za-z0-9+/=]{64,})\]/i,
-      extractor: (match) => match[1],
-    },
-    {
-      name: 'web3_signature',
-      pattern: /\[WEB3SIG:0x([0-9a-fA-F]{128,})\]/i,
-      extractor: (match) => '0x' + match[1],
-    },
-    {
-      name: 'did_signature',
-      pattern:
-        /\[DID:(did:[a-z0-9]+:[a-zA-Z0-9._-]+)#SIG:([0-9a-fA-F]{64,})\]/i,
-      extractor: (match) => match[2],
-    },
-    {
-      name: 'ethereum_signature',
-      pattern: /\[ETH:0x([0-9a-fA-F]{130})\]/i,
-      extractor: (match) => '0x' + match[1],
-    },
-  ];
-
   private isAndroid13Plus = false;
 
-  constructor() {
+  constructor(private inboxReader: SMSInboxReader = androidSMSInboxReader) {
     if (Platform.OS === 'android') {
       this.isAndroid13Plus = (Platform.Version as number) >= 33;
     }
@@ -73,31 +93,23 @@ class SMSService {
    */
   parseSMSMessage(messageText: string, sender?: string): ParsedSMS {
     const timestamp = Date.now();
-    let signature: string | null = null;
-    let extractedContent = messageText;
-    let signatureBlock: string | null = null;
-
-    // Try each signature pattern
-    for (const pattern of this.signaturePatterns) {
-      const match = messageText.match(pattern.pattern);
-      if (match) {
-        signature = pattern.extractor(match);
-        signatureBlock = match[0];
-        // Remove signature block from content
-        extractedContent = messageText.replace(match[0], '').trim();
-        break;
-      }
-    }
+    const parsed = parseSignatureBlocks(messageText);
+    const content = parsed?.content ?? canonicalizeMessage(messageText);
 
     return {
       originalMessage: messageText,
-      extractedContent,
-      signature,
+      extractedContent: content,
+      signedContent: parsed?.signedContent ?? content,
+      signature: parsed?.signatures[0] ?? null,
       sender,
       timestamp,
       metadata: {
         phoneNumber: sender,
-        signatureBlock: signatureBlock || undefined,
+        signatureBlock: parsed?.blocks[0],
+        signatureFormat: parsed?.format,
+        senderAddress: parsed?.senderAddress,
+        sigText: parsed?.metadata.sigText as SigTextHeader | undefined,
+        canonicalizationVersion: CURRENT_CANONICALIZATION_VERSION,
         androidVersion:
           Platform.OS === 'android' ? String(Platform.Version) : undefined,
       },
@@ -105,104 +117,265 @@ class SMSService {
   }
 
   /**
-   * Set up SMS monitoring with Android version compatibility
+   * Deliver each new SMS, parsed, to the callback until `stop` is called.
+   * Uses the given source, otherwise the device inbox when READ_SMS is
+   * granted, otherwise scripted demo messages unless `allowDemo` is false.
    */
-  async setupSMSMonitoring(callback: (sms: ParsedSMS) => void): Promise<{
+  async setupSMSMonitoring(
+    callback: (sms: ParsedSMS) => void,
+    options: { source?: SMSIncomingSource; allowDemo?: boolean } = {}
+  ): Promise<{
     success: boolean;
     method: 'auto' | 'manual' | 'demo';
     message: string;
+    stop: () => void;
+  }> {
+    const { allowDemo = true } = options;
+    const unavailable = (message: string) => ({
+      success: false,
+      method: 'manual' as const,
+      message,
+      stop: () => {},
+    });
+
+    try {
+      let source = options.source;
+      let reason = '';
+
+      if (!source && this.inboxReader.isAvailable()) {
+        const access = await this.inboxReader.requestAccess();
+        if (access.granted) {
+          source = new InboxPollingSource(this.inboxReader, (messages) =>
+            this.reassembleMultipartMessages(messages)
+          );
+        } else {
+          reason = access.message;
+        }
+      } else if (!source) {
+        reason = 'SMS monitoring not available on this platform';
+      }
+
+      if (!source && allowDemo) {
+        source = new DemoSMSSource(() => this.getDemoIncomingMessages());
+      }
+      if (!source) {
+        return unavailable(reason);
+      }
+
+      const stop = await source.start((sms) =>
+        callback(this.parseSMSMessage(sms.body, sms.address))
+      );
+
+      return source.kind === 'demo'
+        ? {
+            success: true,
+            method: 'demo',
+            message: 'Demo mode active - simulated SMS messages',
+            stop,
+          }
+        : {
+            success: true,
+            method: 'auto',
+            message: 'Monitoring incoming SMS',
+            stop,
+          };
+    } catch (error) {
+      console.error('SMS monitoring setup error:', error);
+      return unavailable('Failed to setup SMS monitoring');
+    }
+  }
+
+  /**
+   * Read a page of the device inbox, newest first. Demo messages are
+   * returned only when SMS permission is denied, reported as
+   * `demo_permission_denied`. Multi-part messages are rejoined within the
+   * page, so segments split across a page boundary stay separate.
+   */
+  async getSMSMessages(
+    maxCount = 50,
+    query: Omit<SMSInboxQuery, 'limit'> = {}
+  ): Promise<{
+    messages: SMSRecord[];
+    success: boolean;
+    method: 'native' | 'demo_permission_denied' | 'unavailable';
+    message: string;
+    nextOffset?: number;
   }> {
-    if (Platform.OS === 'web') {
-      console.warn('SMS monitoring not available on web platform');
-      this.simulateSMSForDemo(callback);
+    if (!this.inboxReader.isAvailable()) {
+      return {
+        messages: [],
+        success: false,
+        method: 'unavailable',
+        message: 'SMS inbox is not available on this device',
+      };
+    }
+
+    const access = await this.inboxReader.requestAccess();
+    if (!access.granted) {
       return {
+        messages: this.reassembleMultipartMessages(this.getDemoSMSMessages()),
         success: true,
-        method: 'demo',
-        message: 'Demo mode active - simulated SMS messages',
+        method: 'demo_permission_denied',
+        message: `${access.message}. Showing demo messages instead.`,
       };
     }
 
     try {
-      // For demo purposes, always use demo mode
-      this.simulateSMSForDemo(callback);
-
+      const page = await this.inboxReader.list({ ...query, limit: maxCount });
       return {
+        messages: this.reassembleMultipartMessages(page.messages),
         success: true,
-        method: 'demo',
-        message: 'Demo mode active - simulated SMS messages',
+        method: 'native',
+        message: `Loaded ${page.messages.length} messages from the inbox`,
+        nextOffset: page.nextOffset,
       };
     } catch (error) {
-      console.error('SMS monitoring setup error:', error);
+      console.error('SMS inbox read error:', error);
       return {
+        messages: [],
         success: false,
-        method: 'manual',
-        message: 'Failed to setup SMS monitoring',
+        method: 'native',
+        message: 'Failed to read the SMS inbox',
       };
     }
   }
 
   /**
-   * Get SMS messages with Android version compatibility
+   * Rejoin segments of concatenated SMS that the inbox lists separately, so
+   * that a signature block split from its content can be parsed. Segments
+   * with a concatenation reference are grouped by sender, reference and part
+   * count within SEGMENT_WINDOW_MS and ordered by part number; incomplete
+   * groups are left as they are. Segments without one are joined only when
+   * some ordering of a run from the same sender yields a signature block
+   * that none of them carries alone. Merged messages take the position and
+   * id of their earliest segment and report the number of `parts`.
    */
-  async getSMSMessages(maxCount = 50): Promise<{
-    messages: any[];
-    success: boolean;
-    method: 'native' | 'demo';
-    message: string;
-  }> {
-    // For demo purposes, always use demo mode
-    return {
-      messages: this.getDemoSMSMessages(),
-      success: true,
-      method: 'demo',
-      message: 'Demo SMS messages loaded',
+  reassembleMultipartMessages(
+    messages: SMSRecord[],
+    windowMs = SEGMENT_WINDOW_MS
+  ): SMSRecord[] {
+    const byDate = [...messages].sort((a, b) => a.date - b.date);
+    const used = new Set<string>();
+    const merged = new Map<string, SMSRecord>();
+
+    const addMerged = (segments: SMSRecord[]) => {
+      const joined = this.joinSegments(segments);
+      segments.forEach((segment) => used.add(segment._id));
+      const earliest = segments.reduce((a, b) => (b.date < a.date ? b : a));
+      merged.set(earliest._id, joined);
     };
+
+    for (const segment of byDate) {
+      if (
+        used.has(segment._id) ||
+        segment.concatRef === undefined ||
+        !segment.partCount ||
+        segment.partCount < 2
+      ) {
+        continue;
+      }
+
+      const siblings = new Map<number, SMSRecord>();
+      for (const candidate of byDate) {
+        if (
+          !used.has(candidate._id) &&
+          candidate.address === segment.address &&
+          candidate.concatRef === segment.concatRef &&
+          candidate.partCount === segment.partCount &&
+          candidate.partNumber &&
+          !siblings.has(candidate.partNumber) &&
+          Math.abs(candidate.date - segment.date) <= windowMs
+        ) {
+          siblings.set(candidate.partNumber, candidate);
+        }
+      }
+
+      if (siblings.size === segment.partCount) {
+        addMerged(
+          Array.from(
+            { length: segment.partCount },
+            (_, index) => siblings.get(index + 1)!
+          )
+        );
+      }
+    }
+
+    for (let i = 0; i < byDate.length; i++) {
+      const first = byDate[i];
+      if (used.has(first._id) || containsSignatureBlock(first.body)) {
+        continue;
+      }
+
+      const run = [first];
+      for (
+        let j = i + 1;
+        j < byDate.length && run.length < MAX_UNREFERENCED_PARTS;
+        j++
+      ) {
+        const next = byDate[j];
+        if (next.date - run[run.length - 1].date > windowMs) {
+          break;
+        }
+        if (
+          next.address === first.address &&
+          !used.has(next._id) &&
+          next.concatRef === undefined &&
+          !containsSignatureBlock(next.body)
+        ) {
+          run.push(next);
+        }
+      }
+
+      const ordering = this.findSignedOrdering(run);
+      if (ordering) {
+        addMerged(ordering);
+      }
+    }
+
+    return messages.flatMap(
+      (message) =>
+        merged.get(message._id) ?? (used.has(message._id) ? [] : [message])
+    );
   }
 
   /**
    * Validate if a message contains a proper signature format
    */
   containsValidSignature(messageText: string): boolean {
-    return this.signaturePatterns.some((pattern) =>
-      pattern.pattern.test(messageText)
-    );
+    return containsSignatureBlock(messageText);
   }
 
   /**
-   * Extract sender information from various SMS formats
+   * Extract sender information from various SMS formats. Phone numbers come
+   * back in E.164, the form `organization_sender_ids` is keyed by.
    */
-  extractSenderInfo(sender: string): {
+  extractSenderInfo(
+    sender: string,
+    defaultCallingCode: string = DEFAULT_CALLING_CODE
+  ): {
     phoneNumber?: string;
     displayName?: string;
     isShortCode?: boolean;
+    senderId?: NormalizedSenderId;
   } {
-    const phoneRegex = /^\+?[\d\s\-$$$$]+$/;
-    const shortCodeRegex = /^\d{3,6}$/;
-
-    if (shortCodeRegex.test(sender)) {
-      return {
-        phoneNumber: sender,
-        isShortCode: true,
-      };
+    const senderId = normalizeSenderId(sender, defaultCallingCode);
+
+    switch (senderId?.kind) {
+      case 'short_code':
+        return { phoneNumber: senderId.value, isShortCode: true, senderId };
+      case 'phone':
+        return { phoneNumber: senderId.value, isShortCode: false, senderId };
+      case 'alphanumeric':
+        return { displayName: senderId.value, isShortCode: false, senderId };
+      default:
+        return { displayName: sender.trim(), isShortCode: false };
     }
-
-    if (phoneRegex.test(sender)) {
-      return {
-        phoneNumber: sender.replace(/[\s\-$$$$]/g, ''),
-        isShortCode: false,
-      };
-    }
-
-    return {
-      displayName: sender,
-      isShortCode: false,
-    };
   }
 
   /**
    * Get demo SMS messages for testing and Android 13+ fallback
    */
-  private getDemoSMSMessages(): any[] {
+  private getDemoSMSMessages(): SMSRecord[] {
     const currentTime = Date.now();
     const companies = [
       { name: 'CryptoSecure Technologies', phone: '+1-555-0123' },
@@ -242,7 +415,7 @@ class SMSService {
         }: Payment $${this.generateAmount()} from ${this.generateName()} [SIG:${this.generateHexSignature()}]`,
     ];
 
-    return Array.from({ length: 6 }, (_, index) => {
+    const messages: SMSRecord[] = Array.from({ length: 6 }, (_, index) => {
       const company = companies[index % companies.length];
       const template = messageTemplates[index % messageTemplates.length];
 
@@ -255,6 +428,41 @@ class SMSService {
         read: Math.random() > 0.3 ? 1 : 0,
       };
     });
+
+    // A two-segment message whose signature block landed in the second
+    // segment, listed out of order as some inboxes do
+    const company = companies[1];
+    const longMessage = `${
+      company.name
+    } statement: your card ending 4821 was charged $${this.generateAmount()} at ${this.generateLocation()} Market. If you did not make this purchase, call the number on the back of your card. [ETH:0x${this.generateEthSignature()}]`;
+    const concatRef = Math.floor(Math.random() * 256);
+    const received = currentTime - 30 * 60000;
+    messages.push(
+      {
+        _id: `sms-${currentTime}-part-2`,
+        address: company.phone,
+        body: longMessage.slice(153),
+        date: received + 1500,
+        type: 1,
+        read: 0,
+        concatRef,
+        partNumber: 2,
+        partCount: 2,
+      },
+      {
+        _id: `sms-${currentTime}-part-1`,
+        address: company.phone,
+        body: longMessage.slice(0, 153),
+        date: received,
+        type: 1,
+        read: 0,
+        concatRef,
+        partNumber: 1,
+        partCount: 2,
+      }
+    );
+
+    return messages;
   }
 
   /**
@@ -262,8 +470,20 @@ class SMSService {
    */
   generateTestSMS(
     message: string,
-    signatureType: 'hex' | 'base64' | 'web3' | 'ethereum' = 'hex'
+    signatureType: 'hex' | 'base64' | 'web3' | 'ethereum' | 'sigtext' = 'hex'
   ): string {
+    if (signatureType === 'sigtext') {
+      return serializeSigText(
+        message,
+        {
+          algorithm: 'eip191_compact',
+          keyId: this.generateHexSignature().slice(0, 8),
+          expiresAt: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+        },
+        this.generateCompactSignature()
+      );
+    }
+
     const signatures = {
       hex: `[SIG:${this.generateHexSignature()}]`,
       base64: `[SIGNATURE:${this.generateBase64Signature()}]`,
@@ -271,24 +491,18 @@ class SMSService {
       ethereum: `[ETH:0x${this.generateEthSignature()}]`,
     };
 
-    return `${message} ${signatures[signatureType]}`;
+    return `${canonicalizeMessage(message)} ${signatures[signatureType]}`;
   }
 
   /**
-   * Clean message content by removing signature blocks and metadata
+   * Clean message content by removing signature blocks and metadata. The
+   * result is canonical, so it hashes the same as what the signer signed.
    */
   cleanMessageContent(messageText: string): string {
-    let cleaned = messageText;
-
-    // Remove all signature patterns
-    for (const pattern of this.signaturePatterns) {
-      cleaned = cleaned.replace(pattern.pattern, '');
-    }
-
-    // Remove extra whitespace
-    cleaned = cleaned.replace(/\s+/g, ' ').trim();
-
-    return cleaned;
+    return (
+      parseSignatureBlocks(messageText)?.content ??
+      canonicalizeMessage(messageText)
+    );
   }
 
   // Private helper methods for generating realistic test data
@@ -311,6 +525,16 @@ class SMSService {
     ).join('');
   }
 
+  // 64-byte EIP-2098 signature; the top bit of the second word is the
+  // y-parity, so s stays below 2^255
+  private generateCompactSignature(): Uint8Array {
+    const bytes = Uint8Array.from({ length: 64 }, () =>
+      Math.floor(Math.random() * 256)
+    );
+    bytes[32] &= 0x7f;
+    return bytes;
+  }
+
   private generateBase64Signature(): string {
     const chars =
       'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
@@ -408,7 +632,58 @@ class SMSService {
 
   // Private methods
 
-  private simulateSMSForDemo(callback: (sms: ParsedSMS) => void) {
+  private joinSegments(segments: SMSRecord[]): SMSRecord {
+    const {
+      concatRef: _concatRef,
+      partNumber: _partNumber,
+      partCount: _partCount,
+      ...first
+    } = segments[0];
+    return {
+      ...first,
+      body: segments.map((segment) => segment.body).join(''),
+      date: Math.max(...segments.map((segment) => segment.date)),
+      read: segments.every((segment) => segment.read) ? 1 : 0,
+      parts: segments.length,
+      partIds: segments.map((segment) => segment._id),
+    };
+  }
+
+  /**
+   * Shortest leading run of unreferenced segments, in some order, whose
+   * joined text carries a signature block
+   */
+  private findSignedOrdering(run: SMSRecord[]): SMSRecord[] | null {
+    for (let size = 2; size <= run.length; size++) {
+      for (const ordering of this.permutations(run.slice(0, size))) {
+        if (
+          containsSignatureBlock(
+            ordering.map((segment) => segment.body).join('')
+          )
+        ) {
+          return ordering;
+        }
+      }
+    }
+    return null;
+  }
+
+  private permutations<T>(items: T[]): T[][] {
+    if (items.length <= 1) {
+      return [items];
+    }
+    return items.flatMap((item, index) =>
+      this.permutations([
+        ...items.slice(0, index),
+        ...items.slice(index + 1),
+      ]).map((rest) => [item, ...rest])
+    );
+  }
+
+  private getDemoIncomingMessages(): Array<{
+    message: SMSRecord;
+    delay: number;
+  }> {
     const companies = [
       { name: 'CryptoSecure Technologies', phone: '+1-555-0123' },
       { name: 'FinanceFlow Digital', phone: '+1-555-0456' },
@@ -442,12 +717,18 @@ class SMSService {
       },
     ];
 
-    testMessages.forEach((msg, index) => {
-      setTimeout(() => {
-        const parsed = this.parseSMSMessage(msg.text, msg.sender);
-        callback(parsed);
-      }, msg.delay);
-    });
+    const now = Date.now();
+    return testMessages.map((msg, index) => ({
+      message: {
+        _id: `demo_live_${now}_${index}`,
+        address: msg.sender,
+        body: msg.text,
+        date: now + msg.delay,
+        type: 1,
+        read: 0,
+      },
+      delay: msg.delay,
+    }));
   }
 }
 
@@ -0,0 +1,50 @@
+// Generated from lib/canonical.ts by scripts/sync-edge-shared.js; do not edit.
+// Change lib/canonical.ts and run `npm run sync:edge`.
+
+// Canonical form of signed message content. Carriers re-encode SMS text in
+// transit (line endings, trailing spaces, composed vs decomposed accents),
+// so signers sign and verifiers hash the canonical form rather than the raw
+// text. The verify-message edge function uses a copy generated from this
+// file (supabase/functions/_shared/canonicalize.ts, `npm run sync:edge`).
+//
+// Version 0 (legacy): content is only trimmed.
+// Version 1:
+//   1. Unicode NFC normalization
+//   2. CRLF, CR, NEL (U+0085), LS (U+2028) and PS (U+2029) become LF
+//   3. Whitespace at the end of each line is removed
+//   4. Leading and trailing whitespace of the whole message is removed
+// Whitespace inside a line and blank lines between paragraphs are kept.
+
+export type CanonicalizationVersion = 0 | 1;
+
+export const CURRENT_CANONICALIZATION_VERSION: CanonicalizationVersion = 1;
+
+const LINE_BREAKS = /\r\n|[\r\u0085\u2028\u2029]/g;
+
+// Horizontal whitespace only, so that line breaks survive
+const TRAILING_SPACE = /[^\S\n]+$/gm;
+
+export const isCanonicalizationVersion = (
+  value: unknown
+): value is CanonicalizationVersion => value === 0 || value === 1;
+
+/**
+ * Canonicalize message content under the given spec version
+ */
+export const canonicalizeMessage = (
+  content: string,
+  version: CanonicalizationVersion = CURRENT_CANONICALIZATION_VERSION
+): string => {
+  switch (version) {
+    case 0:
+      return content.trim();
+    case 1:
+      return content
+        .normalize('NFC')
+        .replace(LINE_BREAKS, '\n')
+        .replace(TRAILING_SPACE, '')
+        .trim();
+    default:
+      throw new Error(`Unsupported canonicalization version: ${version}`);
+  }
+};
@@ -0,0 +1,117 @@
+// Generated from lib/envelope.ts by scripts/sync-edge-shared.js; do not edit.
+// Change lib/envelope.ts and run `npm run sync:edge`.
+
+import { hexlify, randomBytes } from 'npm:ethers@6';
+
+// Signed-envelope convention for replay and expiry protection. The sender
+// appends a trailer to the message body *before* signing it, so the nonce
+// and validity window are covered by the signature:
+//
+//   Your code is 123456 [ENV:v1;n=9f1c2ab4e07d3c51;iat=1760864400;exp=1760950800]
+//
+// `n` is a random nonce unique per sender, `iat` and `exp` are unix seconds.
+// The verify-message edge function claims the nonce the first time it
+// verifies the signature: the same message coming back is `already_seen`,
+// the nonce on other content is `nonce_reused`.
+
+export interface MessageEnvelope {
+  body: string;
+  nonce: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export type EnvelopeStatus =
+  | 'fresh'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'already_seen'
+  | 'nonce_reused';
+
+// Tolerated difference between the sender's and the verifier's clocks
+export const ENVELOPE_CLOCK_SKEW_SECONDS = 300;
+
+const ENVELOPE_PATTERN =
+  /\s*\[ENV:v1;n=([A-Za-z0-9_-]{8,64});iat=(\d{1,12});exp=(\d{1,12})\]\s*$/;
+
+/**
+ * Wrap a message body in an envelope valid for `ttlSeconds` from now
+ */
+export const createEnvelope = (
+  body: string,
+  ttlSeconds: number,
+  nonce: string = hexlify(randomBytes(8)).slice(2)
+): MessageEnvelope => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return { body, nonce, issuedAt, expiresAt: issuedAt + ttlSeconds };
+};
+
+/**
+ * The exact text the sender signs
+ */
+export const serializeEnvelope = (envelope: MessageEnvelope): string =>
+  `${envelope.body} [ENV:v1;n=${envelope.nonce};iat=${envelope.issuedAt};exp=${envelope.expiresAt}]`;
+
+/**
+ * Extract the envelope from signed message content, or null when the
+ * content carries no envelope trailer
+ */
+export const parseEnvelope = (content: string): MessageEnvelope | null => {
+  const match = content.match(ENVELOPE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const issuedAt = Number(match[2]);
+  const expiresAt = Number(match[3]);
+  if (expiresAt <= issuedAt) {
+    return null;
+  }
+
+  return {
+    body: content.slice(0, match.index).trimEnd(),
+    nonce: match[1],
+    issuedAt,
+    expiresAt,
+  };
+};
+
+/**
+ * Read envelope fields from an EIP-712 message that declares `nonce`,
+ * `issuedAt` and `expiresAt` (unix seconds)
+ */
+export const envelopeFromTypedData = (
+  message: Record<string, any>
+): MessageEnvelope | null => {
+  const { nonce, issuedAt, expiresAt } = message || {};
+  if (
+    nonce === undefined ||
+    issuedAt === undefined ||
+    expiresAt === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    body: JSON.stringify(message),
+    nonce: String(nonce),
+    issuedAt: Number(issuedAt),
+    expiresAt: Number(expiresAt),
+  };
+};
+
+/**
+ * Check an envelope's validity window against the verifier's clock
+ */
+export const checkEnvelopeWindow = (
+  envelope: MessageEnvelope,
+  now: number = Math.floor(Date.now() / 1000)
+): Exclude<EnvelopeStatus, 'already_seen' | 'nonce_reused'> => {
+  if (envelope.issuedAt > now + ENVELOPE_CLOCK_SKEW_SECONDS) {
+    return 'not_yet_valid';
+  }
+  if (now >= envelope.expiresAt + ENVELOPE_CLOCK_SKEW_SECONDS) {
+    return 'expired';
+  }
+  return 'fresh';
+};
@@ -0,0 +1,86 @@
+// Generated from lib/senderId.ts by scripts/sync-edge-shared.js; do not edit.
+// Change lib/senderId.ts and run `npm run sync:edge`.
+
+// SMS sender IDs as registered in `organization_sender_ids`. Phone numbers
+// are stored in E.164 (+ followed by up to 15 digits), short codes as their
+// digits and alphanumeric sender IDs in upper case, so an inbox address and
+// a registry entry compare equal whatever formatting either was written in.
+// The sms-inbound edge function uses a copy generated from this file
+// (supabase/functions/_shared/senderId.ts, `npm run sync:edge`).
+
+export type SenderIdKind = 'phone' | 'short_code' | 'alphanumeric';
+
+export interface NormalizedSenderId {
+  kind: SenderIdKind;
+  value: string;
+}
+
+// Calling code assumed for national numbers without one
+export const DEFAULT_CALLING_CODE = '1';
+
+const SEPARATORS = /[\s\u00a0().\-/]/g;
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const SHORT_CODE_PATTERN = /^\d{3,6}$/;
+const ALPHANUMERIC_PATTERN = /^(?=.*[A-Z])[A-Z0-9 .&_-]{1,11}$/;
+
+/**
+ * Normalize a phone number to E.164, or null when it cannot be one.
+ * National numbers get `defaultCallingCode`; for the North American plan
+ * that is a 10-digit number, elsewhere the trunk prefix 0 is dropped.
+ */
+export const toE164 = (
+  raw: string,
+  defaultCallingCode: string = DEFAULT_CALLING_CODE
+): string | null => {
+  let number = raw.trim().replace(SEPARATORS, '');
+  if (number.startsWith('00')) {
+    number = '+' + number.slice(2);
+  }
+
+  if (!number.startsWith('+')) {
+    if (!/^\d+$/.test(number)) {
+      return null;
+    }
+    if (defaultCallingCode === '1') {
+      if (number.length === 11 && number.startsWith('1')) {
+        number = '+' + number;
+      } else if (number.length === 10) {
+        number = '+1' + number;
+      } else {
+        return null;
+      }
+    } else {
+      number = '+' + defaultCallingCode + number.replace(/^0/, '');
+    }
+  }
+
+  return E164_PATTERN.test(number) ? number : null;
+};
+
+/**
+ * Classify and normalize an SMS sender as shown by the inbox, or null when
+ * it is none of a phone number, short code or alphanumeric sender ID
+ */
+export const normalizeSenderId = (
+  raw: string,
+  defaultCallingCode: string = DEFAULT_CALLING_CODE
+): NormalizedSenderId | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (SHORT_CODE_PATTERN.test(trimmed)) {
+    return { kind: 'short_code', value: trimmed };
+  }
+
+  if (/^[+\d\s\u00a0().\-/]+$/.test(trimmed)) {
+    const phone = toE164(trimmed, defaultCallingCode);
+    return phone ? { kind: 'phone', value: phone } : null;
+  }
+
+  const alphanumeric = trimmed.toUpperCase().replace(/\s+/g, ' ');
+  return ALPHANUMERIC_PATTERN.test(alphanumeric)
+    ? { kind: 'alphanumeric', value: alphanumeric }
+    : null;
+};
@@ -0,0 +1,593 @@
+// Signature verifiers for organization wallets, dispatched on the
+// `organization_wallets.wallet_type` column
+
+import {
+  Signature,
+  SigningKey,
+  decodeBase58,
+  getBytes,
+  hashMessage,
+  hexlify,
+  isAddress,
+  recoverAddress,
+  ripemd160,
+  sha256,
+  toBeArray,
+  toUtf8Bytes,
+} from 'npm:ethers@6';
+import { schnorr, secp256k1 } from 'npm:@noble/curves@1/secp256k1';
+import nacl from 'npm:tweetnacl@1';
+import algosdk from 'npm:algosdk@3';
+
+export type WalletType =
+  | 'ethereum'
+  | 'bitcoin'
+  | 'solana'
+  | 'polygon'
+  | 'other';
+
+export interface WalletVerification {
+  algorithm: 'secp256k1' | 'schnorr' | 'ed25519';
+  scheme:
+    | 'eip191'
+    | 'bip137'
+    | 'bip322_simple'
+    | 'solana_offchain'
+    | 'solana_raw'
+    | 'algorand_sign_bytes'
+    | 'raw_ed25519';
+}
+
+type Verifier = (
+  address: string,
+  message: string,
+  signature: string
+) => WalletVerification | null;
+
+// ---------------------------------------------------------------------------
+// Byte helpers
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const sha256Bytes = (data: Uint8Array): Uint8Array => getBytes(sha256(data));
+
+const doubleSha256 = (data: Uint8Array): Uint8Array =>
+  sha256Bytes(sha256Bytes(data));
+
+const hash160 = (data: Uint8Array): Uint8Array =>
+  getBytes(ripemd160(sha256Bytes(data)));
+
+const taggedHash = (tag: string, data: Uint8Array): Uint8Array => {
+  const tagHash = sha256Bytes(toUtf8Bytes(tag));
+  return sha256Bytes(concatBytes(tagHash, tagHash, data));
+};
+
+const varint = (value: number): Uint8Array => {
+  if (value < 0xfd) return Uint8Array.of(value);
+  if (value <= 0xffff) return Uint8Array.of(0xfd, value & 0xff, value >> 8);
+  return Uint8Array.of(
+    0xfe,
+    value & 0xff,
+    (value >> 8) & 0xff,
+    (value >> 16) & 0xff,
+    value >>> 24
+  );
+};
+
+const withLength = (data: Uint8Array): Uint8Array =>
+  concatBytes(varint(data.length), data);
+
+const uint32LE = (value: number): Uint8Array =>
+  Uint8Array.of(
+    value & 0xff,
+    (value >> 8) & 0xff,
+    (value >> 16) & 0xff,
+    value >>> 24
+  );
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Decode hex (optionally 0x-prefixed) or base64/base64url to bytes
+ */
+export const decodeBytes = (value: string): Uint8Array | null => {
+  const hex = value.trim().replace(/^0x/i, '');
+  if (hex.length > 0 && hex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(hex)) {
+    return getBytes('0x' + hex);
+  }
+
+  try {
+    const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=');
+    return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const base64ToBytes = (value: string): Uint8Array | null => {
+  try {
+    return Uint8Array.from(atob(value.trim()), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decode base58btc, keeping leading zero bytes
+ */
+const base58ToBytes = (value: string): Uint8Array | null => {
+  if (!/^[1-9A-HJ-NP-Za-km-z]+$/.test(value)) return null;
+  const zeros = value.match(/^1*/)![0].length;
+  const rest = value.slice(zeros);
+  const body = rest.length > 0 ? toBeArray(decodeBase58(rest)) : [];
+  const bytes = new Uint8Array(zeros + body.length);
+  bytes.set(body, zeros);
+  return bytes;
+};
+
+// ---------------------------------------------------------------------------
+// Bitcoin addresses
+
+type BitcoinAddress =
+  | { type: 'p2pkh' | 'p2sh' | 'p2wpkh'; hash: Uint8Array }
+  | { type: 'p2tr'; hash: Uint8Array };
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32M_CONST = 0x2bc830a3;
+
+const bech32Polymod = (values: number[]): number => {
+  const generator = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) checksum ^= generator[i];
+    }
+  }
+  return checksum;
+};
+
+/**
+ * Decode a segwit address (BIP-173 for v0, BIP-350 for v1+)
+ */
+const decodeSegwitAddress = (
+  address: string
+): { version: number; program: Uint8Array } | null => {
+  const lower = address.toLowerCase();
+  if (lower !== address && address.toUpperCase() !== address) return null;
+
+  const separator = lower.lastIndexOf('1');
+  const hrp = lower.slice(0, separator);
+  if (hrp !== 'bc' && hrp !== 'tb') return null;
+
+  const data = Array.from(lower.slice(separator + 1), (char) =>
+    BECH32_CHARSET.indexOf(char)
+  );
+  if (data.length < 7 || data.includes(-1)) return null;
+
+  const expanded = [
+    ...Array.from(hrp, (char) => char.charCodeAt(0) >> 5),
+    0,
+    ...Array.from(hrp, (char) => char.charCodeAt(0) & 31),
+  ];
+  const checksum = bech32Polymod([...expanded, ...data]);
+  const version = data[0];
+  if (checksum !== (version === 0 ? 1 : BECH32M_CONST)) return null;
+
+  // Regroup 5-bit words into bytes
+  const program: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const word of data.slice(1, -6)) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      program.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator & ((1 << bits) - 1)) !== 0) return null;
+
+  return { version, program: Uint8Array.from(program) };
+};
+
+export const parseBitcoinAddress = (address: string): BitcoinAddress | null => {
+  const segwit = decodeSegwitAddress(address);
+  if (segwit) {
+    if (segwit.version === 0 && segwit.program.length === 20) {
+      return { type: 'p2wpkh', hash: segwit.program };
+    }
+    if (segwit.version === 1 && segwit.program.length === 32) {
+      return { type: 'p2tr', hash: segwit.program };
+    }
+    return null;
+  }
+
+  const decoded = base58ToBytes(address);
+  if (!decoded || decoded.length !== 25) return null;
+  const payload = decoded.slice(0, 21);
+  if (!sameBytes(doubleSha256(payload).slice(0, 4), decoded.slice(21))) {
+    return null;
+  }
+
+  if (payload[0] === 0x00 || payload[0] === 0x6f) {
+    return { type: 'p2pkh', hash: payload.slice(1) };
+  }
+  if (payload[0] === 0x05 || payload[0] === 0xc4) {
+    return { type: 'p2sh', hash: payload.slice(1) };
+  }
+  return null;
+};
+
+const scriptPubKey = (address: BitcoinAddress): Uint8Array => {
+  switch (address.type) {
+    case 'p2pkh':
+      return concatBytes(
+        Uint8Array.of(0x76, 0xa9, 0x14),
+        address.hash,
+        Uint8Array.of(0x88, 0xac)
+      );
+    case 'p2sh':
+      return concatBytes(
+        Uint8Array.of(0xa9, 0x14),
+        address.hash,
+        Uint8Array.of(0x87)
+      );
+    case 'p2wpkh':
+      return concatBytes(Uint8Array.of(0x00, 0x14), address.hash);
+    case 'p2tr':
+      return concatBytes(Uint8Array.of(0x51, 0x20), address.hash);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Bitcoin: BIP-137 (legacy "Bitcoin Signed Message")
+
+const bitcoinMessageDigest = (message: string): Uint8Array => {
+  const prefix = toUtf8Bytes('\x18Bitcoin Signed Message:\n');
+  const body = toUtf8Bytes(message);
+  return doubleSha256(concatBytes(prefix, varint(body.length), body));
+};
+
+const verifyBip137 = (
+  address: BitcoinAddress,
+  message: string,
+  signature: Uint8Array
+): boolean => {
+  const header = signature[0];
+  if (signature.length !== 65 || header < 27 || header > 42) return false;
+
+  const recovery = (header - 27) & 3;
+  const compressed = header >= 31;
+
+  const uncompressedKey = SigningKey.recoverPublicKey(
+    bitcoinMessageDigest(message),
+    Signature.from({
+      r: hexlify(signature.slice(1, 33)),
+      s: hexlify(signature.slice(33)),
+      v: 27 + recovery,
+    })
+  );
+  const publicKey = getBytes(
+    compressed
+      ? SigningKey.computePublicKey(uncompressedKey, true)
+      : uncompressedKey
+  );
+  const keyHash = hash160(publicKey);
+
+  // The header's address-type hint is not reliable across wallets, so the
+  // recovered key is matched against the address itself
+  switch (address.type) {
+    case 'p2pkh':
+      return sameBytes(keyHash, address.hash);
+    case 'p2wpkh':
+      return compressed && sameBytes(keyHash, address.hash);
+    case 'p2sh':
+      return (
+        compressed &&
+        sameBytes(
+          hash160(concatBytes(Uint8Array.of(0x00, 0x14), keyHash)),
+          address.hash
+        )
+      );
+    default:
+      return false;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Bitcoin: BIP-322 simple signatures (native segwit only)
+
+const parseWitness = (data: Uint8Array): Uint8Array[] | null => {
+  const readVarint = (offset: number): [number, number] => {
+    const first = data[offset];
+    if (first < 0xfd) return [first, 1];
+    if (first === 0xfd) return [data[offset + 1] | (data[offset + 2] << 8), 3];
+    throw new Error('Witness item too large');
+  };
+
+  try {
+    let [count, offset] = readVarint(0);
+    const items: Uint8Array[] = [];
+    while (count-- > 0) {
+      const [length, size] = readVarint(offset);
+      offset += size;
+      if (offset + length > data.length) return null;
+      items.push(data.slice(offset, offset + length));
+      offset += length;
+    }
+    return offset === data.length ? items : null;
+  } catch {
+    return null;
+  }
+};
+
+const verifyBip322Simple = (
+  address: BitcoinAddress,
+  message: string,
+  signature: Uint8Array
+): boolean => {
+  const witness = parseWitness(signature);
+  if (!witness) return false;
+
+  const script = scriptPubKey(address);
+  const messageHash = taggedHash(
+    'BIP0322-signed-message',
+    toUtf8Bytes(message)
+  );
+  const zero32 = new Uint8Array(4);
+  const zero64 = new Uint8Array(8);
+
+  // to_spend: a virtual transaction committing to the message and address
+  const toSpend = concatBytes(
+    zero32, // version 0
+    varint(1),
+    new Uint8Array(32),
+    Uint8Array.of(0xff, 0xff, 0xff, 0xff),
+    withLength(concatBytes(Uint8Array.of(0x00, 0x20), messageHash)),
+    zero32, // sequence 0
+    varint(1),
+    zero64,
+    withLength(script),
+    zero32 // locktime 0
+  );
+  const outpoint = concatBytes(doubleSha256(toSpend), zero32);
+  const toSignOutputs = concatBytes(zero64, withLength(Uint8Array.of(0x6a)));
+
+  if (address.type === 'p2wpkh') {
+    if (witness.length !== 2) return false;
+    const [signatureWithType, publicKey] = witness;
+    if (signatureWithType[signatureWithType.length - 1] !== 0x01) return false;
+    if (!sameBytes(hash160(publicKey), address.hash)) return false;
+
+    // BIP-143 signature hash for SIGHASH_ALL
+    const scriptCode = concatBytes(
+      Uint8Array.of(0x19, 0x76, 0xa9, 0x14),
+      address.hash,
+      Uint8Array.of(0x88, 0xac)
+    );
+    const digest = doubleSha256(
+      concatBytes(
+        zero32,
+        doubleSha256(outpoint),
+        doubleSha256(zero32),
+        outpoint,
+        scriptCode,
+        zero64,
+        zero32,
+        doubleSha256(toSignOutputs),
+        zero32,
+        uint32LE(1)
+      )
+    );
+
+    return secp256k1.verify(signatureWithType.slice(0, -1), digest, publicKey);
+  }
+
+  if (address.type === 'p2tr') {
+    if (witness.length !== 1) return false;
+    const [schnorrSignature] = witness;
+    if (schnorrSignature.length !== 64 && schnorrSignature.length !== 65) {
+      return false;
+    }
+    const hashType =
+      schnorrSignature.length === 65 ? schnorrSignature[64] : 0x00;
+    if (hashType !== 0x00 && hashType !== 0x01) return false;
+
+    // BIP-341 key-path signature hash
+    const digest = taggedHash(
+      'TapSighash',
+      concatBytes(
+        Uint8Array.of(0x00, hashType),
+        zero32,
+        zero32,
+        sha256Bytes(outpoint),
+        sha256Bytes(zero64),
+        sha256Bytes(withLength(script)),
+        sha256Bytes(zero32),
+        sha256Bytes(toSignOutputs),
+        Uint8Array.of(0x00),
+        zero32
+      )
+    );
+
+    return schnorr.verify(schnorrSignature.slice(0, 64), digest, address.hash);
+  }
+
+  return false;
+};
+
+const verifyBitcoin: Verifier = (address, message, signature) => {
+  const parsed = parseBitcoinAddress(address);
+  const bytes = base64ToBytes(signature);
+  if (!parsed || !bytes) return null;
+
+  try {
+    if (bytes.length === 65 && bytes[0] >= 27 && bytes[0] <= 42) {
+      return verifyBip137(parsed, message, bytes)
+        ? { algorithm: 'secp256k1', scheme: 'bip137' }
+        : null;
+    }
+
+    return verifyBip322Simple(parsed, message, bytes)
+      ? {
+          algorithm: parsed.type === 'p2tr' ? 'schnorr' : 'secp256k1',
+          scheme: 'bip322_simple',
+        }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Solana: Ed25519 over the raw message or the off-chain message envelope
+
+const SOLANA_OFFCHAIN_DOMAIN = concatBytes(
+  Uint8Array.of(0xff),
+  toUtf8Bytes('solana offchain')
+);
+
+/**
+ * Version 0 off-chain message: signing domain, header version, format and
+ * little-endian length, followed by the message
+ */
+const solanaOffchainMessage = (message: string): Uint8Array => {
+  const body = toUtf8Bytes(message);
+  const format = /^[\x20-\x7e]*$/.test(message)
+    ? 0
+    : body.length <= 1212
+    ? 1
+    : 2;
+  return concatBytes(
+    SOLANA_OFFCHAIN_DOMAIN,
+    Uint8Array.of(0, format, body.length & 0xff, body.length >> 8),
+    body
+  );
+};
+
+const verifySolana: Verifier = (address, message, signature) => {
+  const publicKey = base58ToBytes(address);
+  const signatureBytes =
+    (/^[1-9A-HJ-NP-Za-km-z]{86,88}$/.test(signature) &&
+      base58ToBytes(signature)) ||
+    decodeBytes(signature);
+  if (publicKey?.length !== 32 || signatureBytes?.length !== 64) return null;
+
+  if (
+    nacl.sign.detached.verify(toUtf8Bytes(message), signatureBytes, publicKey)
+  ) {
+    return { algorithm: 'ed25519', scheme: 'solana_raw' };
+  }
+  if (
+    nacl.sign.detached.verify(
+      solanaOffchainMessage(message),
+      signatureBytes,
+      publicKey
+    )
+  ) {
+    return { algorithm: 'ed25519', scheme: 'solana_offchain' };
+  }
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// EVM chains and Algorand
+
+const verifyEvm: Verifier = (address, message, signature) => {
+  const bytes = decodeBytes(signature);
+  if (!isAddress(address) || bytes?.length !== 65) return null;
+
+  try {
+    const recovered = recoverAddress(hashMessage(message), hexlify(bytes));
+    return recovered.toLowerCase() === address.toLowerCase()
+      ? { algorithm: 'secp256k1', scheme: 'eip191' }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ed25519 check under the Algorand signBytes ("MX" prefix) convention, then
+ * over the raw message
+ */
+export const verifyEd25519 = (
+  message: Uint8Array,
+  signature: Uint8Array,
+  publicKey: Uint8Array
+): WalletVerification | null => {
+  if (signature.length !== 64 || publicKey.length !== 32) return null;
+
+  if (
+    nacl.sign.detached.verify(
+      concatBytes(toUtf8Bytes('MX'), message),
+      signature,
+      publicKey
+    )
+  ) {
+    return { algorithm: 'ed25519', scheme: 'algorand_sign_bytes' };
+  }
+  if (nacl.sign.detached.verify(message, signature, publicKey)) {
+    return { algorithm: 'ed25519', scheme: 'raw_ed25519' };
+  }
+  return null;
+};
+
+const verifyOther: Verifier = (address, message, signature) => {
+  if (algosdk.isValidAddress(address)) {
+    const bytes = decodeBytes(signature);
+    return bytes
+      ? verifyEd25519(
+          toUtf8Bytes(message),
+          bytes,
+          algosdk.decodeAddress(address).publicKey
+        )
+      : null;
+  }
+  return verifyEvm(address, message, signature);
+};
+
+const verifiers: Record<WalletType, Verifier> = {
+  ethereum: verifyEvm,
+  polygon: verifyEvm,
+  bitcoin: verifyBitcoin,
+  solana: verifySolana,
+  other: verifyOther,
+};
+
+/**
+ * Guess the wallet type of an address that has no `wallet_type` recorded,
+ * such as an organization's primary `wallet_address`
+ */
+export const inferWalletType = (address: string): WalletType => {
+  if (isAddress(address)) return 'ethereum';
+  if (parseBitcoinAddress(address)) return 'bitcoin';
+  if (algosdk.isValidAddress(address)) return 'other';
+  if (base58ToBytes(address)?.length === 32) return 'solana';
+  return 'other';
+};
+
+/**
+ * Verify a signature made by a wallet of the given type
+ */
+export const verifyWalletSignature = (
+  walletType: WalletType,
+  address: string,
+  message: string,
+  signature: string
+): WalletVerification | null =>
+  (verifiers[walletType] || verifyOther)(address, message, signature);
@@ -0,0 +1,112 @@
+// Supabase Edge Function: sms-inbound
+// Webhook for SMS received on the platform's inbound number. An organization
+// proves it owns a sender ID by texting "VERIFY <code>" from it; the sender
+// the carrier reported is normalized and handed to
+// confirm_sender_id_challenge, which marks the sender ID verified.
+//
+// Accepts a Twilio-style form post (From, Body) or JSON ({ from, body }).
+// SMS providers cannot send a Supabase JWT, so deploy with --no-verify-jwt;
+// requests are authenticated with SMS_INBOUND_SECRET instead, passed as the
+// x-webhook-secret header or the `secret` query parameter.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { normalizeSenderId } from '../_shared/senderId.ts';
+
+interface InboundSMS {
+  from: string;
+  body: string;
+}
+
+const CHALLENGE_PATTERN = /^\s*VERIFY\s+(\d{6})\s*$/i;
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Compare without leaking how much of the secret matched
+const secretsMatch = (given: string, expected: string): boolean => {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    difference |= (a[i] ?? 0) ^ b[i];
+  }
+  return difference === 0;
+};
+
+const readInboundSMS = async (request: Request): Promise<InboundSMS | null> => {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const form = await request.formData();
+    const from = form.get('From');
+    const body = form.get('Body');
+    return typeof from === 'string' && typeof body === 'string'
+      ? { from, body }
+      : null;
+  }
+
+  const payload = await request.json();
+  return typeof payload?.from === 'string' && typeof payload?.body === 'string'
+    ? { from: payload.from, body: payload.body }
+    : null;
+};
+
+Deno.serve(async (request) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const expectedSecret = Deno.env.get('SMS_INBOUND_SECRET');
+  if (!expectedSecret) {
+    console.error('SMS_INBOUND_SECRET is not configured');
+    return json({ error: 'Inbound SMS is not configured' }, 503);
+  }
+
+  const givenSecret =
+    request.headers.get('x-webhook-secret') ||
+    new URL(request.url).searchParams.get('secret') ||
+    '';
+  if (!secretsMatch(givenSecret, expectedSecret)) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  let sms: InboundSMS | null;
+  try {
+    sms = await readInboundSMS(request);
+  } catch {
+    sms = null;
+  }
+  if (!sms) {
+    return json({ error: 'from and body are required' }, 400);
+  }
+
+  // Anything that is not a challenge reply is acknowledged and dropped
+  const challenge = sms.body.match(CHALLENGE_PATTERN);
+  const sender = normalizeSenderId(sms.from);
+  if (!challenge || !sender) {
+    return json({ confirmed: false, reason: 'not_a_challenge' });
+  }
+
+  const { data: confirmed, error } = await supabase.rpc(
+    'confirm_sender_id_challenge',
+    { sender: sender.value, sender_kind: sender.kind, code: challenge[1] }
+  );
+  if (error) {
+    console.error('Sender ID confirmation error:', error);
+    return json({ error: 'Could not confirm the sender ID' }, 500);
+  }
+
+  return json({
+    confirmed: confirmed === true,
+    sender_id: sender.value,
+    kind: sender.kind,
+  });
+});
@@ -0,0 +1,768 @@
+// Supabase Edge Function: verify-message
+// Cryptographic verification of a signed message against the sending
+// organization's public key and registered wallets. Responds with the same
+// is_valid / organization_id / organization_name / verification_details
+// shape as the verify_message_signature SQL function it replaces.
+//
+// Messages carrying a signed envelope are also checked for replay here: the
+// function claims the envelope nonce once the signature has verified, which
+// only the service role may do. EIP-712 messages are accepted as
+// `typed_data` for the same check; contract wallets among their signers are
+// asked over ETHEREUM_RPC_URL.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  Interface,
+  TypedDataEncoder,
+  computeAddress,
+  hashMessage,
+  hexlify,
+  recoverAddress,
+  sha256,
+  toUtf8Bytes,
+  type TypedDataDomain,
+  type TypedDataField,
+} from 'npm:ethers@6';
+import algosdk from 'npm:algosdk@3';
+import {
+  decodeBytes,
+  inferWalletType,
+  verifyEd25519,
+  verifyWalletSignature,
+  type WalletType,
+  type WalletVerification,
+} from '../_shared/walletVerifiers.ts';
+import {
+  CURRENT_CANONICALIZATION_VERSION,
+  canonicalizeMessage,
+  isCanonicalizationVersion,
+} from '../_shared/canonicalize.ts';
+import {
+  checkEnvelopeWindow,
+  envelopeFromTypedData,
+  parseEnvelope,
+  type EnvelopeStatus,
+  type MessageEnvelope,
+} from '../_shared/envelope.ts';
+
+interface VerifyRequest {
+  message_content: string;
+  signature?: string;
+  signatures?: string[]; // for messages countersigned by several wallets
+  sender_addr: string;
+  signed_at?: string; // ISO 8601, defaults to now
+  canonicalization_version?: number; // defaults to the current spec, as in the app
+  key_id?: string; // SigText key id; only the key or wallet with it is tried
+  typed_data?: TypedDataPayload; // EIP-712 message, instead of message_content
+}
+
+interface TypedDataPayload {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType?: string;
+  message: Record<string, any>;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+  public_key: string;
+  wallet_address: string;
+  signature_threshold: number;
+}
+
+interface Wallet {
+  wallet_address: string;
+  wallet_type: WalletType;
+}
+
+interface OrganizationKey {
+  id: string | null; // null for an organization without key history
+  public_key: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  successor_key_id: string | null;
+}
+
+type KeyStatus = 'valid' | 'revoked' | 'outside_validity_window';
+
+interface KeyMatch extends WalletVerification {
+  matched_key: 'public_key' | 'wallet';
+  wallet_type?: WalletType;
+  signer: string;
+  key_id?: string | null;
+  key_status: KeyStatus;
+  revocation_reason?: string | null;
+  successor_key_id?: string | null;
+}
+
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const eip1271Interface = new Interface([
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+]);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// ilike gives a case-insensitive match; its wildcards must match literally
+const escapeLikePattern = (value: string): string =>
+  value.replace(/[\\%_]/g, (character) => '\\' + character);
+
+/**
+ * Find the verified organization that owns the sender address, either as
+ * its primary wallet or as an active additional wallet
+ */
+const findOrganization = async (
+  senderAddress: string
+): Promise<{ organization: Organization; wallets: Wallet[] } | null> => {
+  const columns = 'id, name, public_key, wallet_address, signature_threshold';
+
+  let { data: organization } = await supabase
+    .from('organizations')
+    .select(columns)
+    .ilike('wallet_address', escapeLikePattern(senderAddress))
+    .eq('verification_status', 'verified')
+    .maybeSingle();
+
+  if (!organization) {
+    const { data: wallet } = await supabase
+      .from('organization_wallets')
+      .select('organization_id')
+      .ilike('wallet_address', escapeLikePattern(senderAddress))
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (wallet) {
+      ({ data: organization } = await supabase
+        .from('organizations')
+        .select(columns)
+        .eq('id', wallet.organization_id)
+        .eq('verification_status', 'verified')
+        .maybeSingle());
+    }
+  }
+
+  if (!organization) {
+    return null;
+  }
+
+  const { data: wallets } = await supabase
+    .from('organization_wallets')
+    .select('wallet_address, wallet_type')
+    .eq('organization_id', organization.id)
+    .eq('is_active', true);
+
+  return {
+    organization,
+    wallets: [
+      {
+        wallet_address: organization.wallet_address,
+        wallet_type: inferWalletType(organization.wallet_address),
+      },
+      ...(wallets || []),
+    ],
+  };
+};
+
+/**
+ * Key history of an organization. Organizations created before key history
+ * existed fall back to their single `public_key`.
+ */
+const loadKeys = async (
+  organization: Organization
+): Promise<OrganizationKey[]> => {
+  const { data: keys } = await supabase
+    .from('organization_keys')
+    .select(
+      'id, public_key, valid_from, valid_until, revoked_at, revocation_reason, successor_key_id'
+    )
+    .eq('organization_id', organization.id)
+    .order('valid_from', { ascending: false });
+
+  if (keys && keys.length > 0) {
+    return keys;
+  }
+
+  return [
+    {
+      id: null,
+      public_key: organization.public_key,
+      valid_from: null,
+      valid_until: null,
+      revoked_at: null,
+      revocation_reason: null,
+      successor_key_id: null,
+    },
+  ];
+};
+
+// SigText key id: first 4 bytes of SHA-256 over the lowercased public key or
+// wallet address, as in lib/sigtext.ts
+const sigTextKeyId = (publicKeyOrAddress: string): string =>
+  sha256(toUtf8Bytes(publicKeyOrAddress.trim().toLowerCase())).slice(2, 10);
+
+// Revocation reasons that do not suggest anyone else holds the key
+const ROUTINE_REVOCATION_REASONS = new Set(['superseded']);
+
+/**
+ * Whether a signature by the key counts as revoked. The signing time is
+ * chosen by the signer, so after a compromise (or for an unstated reason)
+ * a backdated envelope must not get past the revocation: every signature
+ * counts as revoked. Only a routine revocation keeps messages signed
+ * before it valid.
+ */
+const isRevokedAt = (key: OrganizationKey, signedAt: Date): boolean =>
+  !!key.revoked_at &&
+  (!ROUTINE_REVOCATION_REASONS.has(key.revocation_reason ?? '') ||
+    signedAt >= new Date(key.revoked_at));
+
+const isValidAt = (key: OrganizationKey, time: Date): boolean =>
+  (!key.valid_from || new Date(key.valid_from) <= time) &&
+  (!key.valid_until || time < new Date(key.valid_until));
+
+/**
+ * Check a signature against a single public key: Ed25519 for 32-byte keys,
+ * otherwise an EIP-191 recovery compared with the key's address
+ */
+const verifyWithPublicKey = (
+  message: string,
+  signature: string,
+  publicKeyText: string
+): (WalletVerification & { signer: string }) | null => {
+  const publicKey = decodeBytes(publicKeyText);
+  const signatureBytes = decodeBytes(signature);
+  if (!publicKey || !signatureBytes) {
+    return null;
+  }
+
+  if (publicKey.length === 32) {
+    const verification = verifyEd25519(
+      toUtf8Bytes(message),
+      signatureBytes,
+      publicKey
+    );
+    return verification
+      ? { ...verification, signer: algosdk.encodeAddress(publicKey) }
+      : null;
+  }
+
+  try {
+    const recovered = recoverAddress(
+      hashMessage(message),
+      hexlify(signatureBytes)
+    );
+    if (computeAddress(hexlify(publicKey)) === recovered) {
+      return { algorithm: 'secp256k1', scheme: 'eip191', signer: recovered };
+    }
+  } catch {
+    // not a recoverable signature or not a secp256k1 point
+  }
+
+  return null;
+};
+
+/**
+ * Find the organization wallet that made a signature, using the verifier
+ * for each wallet's type
+ */
+const matchWallet = (
+  message: string,
+  signature: string,
+  wallets: Wallet[]
+): KeyMatch | null => {
+  for (const wallet of wallets) {
+    const verification = verifyWalletSignature(
+      wallet.wallet_type,
+      wallet.wallet_address,
+      message,
+      signature
+    );
+    if (verification) {
+      return {
+        ...verification,
+        matched_key: 'wallet',
+        wallet_type: wallet.wallet_type,
+        signer: wallet.wallet_address,
+        key_status: 'valid',
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Try the signature against every wallet the organization controls, then
+ * against its key history. Keys valid at the signing time are tried first;
+ * a match on any other key is reported with its status (revoked, or outside
+ * its validity window).
+ */
+const matchKey = (
+  message: string,
+  signature: string,
+  wallets: Wallet[],
+  keys: OrganizationKey[],
+  signedAt: Date
+): KeyMatch | null => {
+  const walletMatch = matchWallet(message, signature, wallets);
+  if (walletMatch) {
+    return walletMatch;
+  }
+
+  const ordered = [
+    ...keys.filter((key) => isValidAt(key, signedAt)),
+    ...keys.filter((key) => !isValidAt(key, signedAt)),
+  ];
+
+  for (const key of ordered) {
+    const verification = verifyWithPublicKey(
+      message,
+      signature,
+      key.public_key
+    );
+    if (verification) {
+      return {
+        ...verification,
+        matched_key: 'public_key',
+        key_id: key.id,
+        key_status: isRevokedAt(key, signedAt)
+          ? 'revoked'
+          : isValidAt(key, signedAt)
+          ? 'valid'
+          : 'outside_validity_window',
+        revocation_reason: key.revocation_reason,
+        successor_key_id: key.successor_key_id,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Ask a contract wallet whether it accepts a signature over a digest
+ * (EIP-1271). Without ETHEREUM_RPC_URL no contract can be asked.
+ */
+const isValidContractSignature = async (
+  contractAddress: string,
+  digest: string,
+  signature: string
+): Promise<boolean> => {
+  const rpcUrl = Deno.env.get('ETHEREUM_RPC_URL');
+  if (!rpcUrl) {
+    return false;
+  }
+
+  try {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_call',
+        params: [
+          {
+            to: contractAddress,
+            data: eip1271Interface.encodeFunctionData('isValidSignature', [
+              digest,
+              signature,
+            ]),
+          },
+          'latest',
+        ],
+      }),
+    });
+    const { result } = await response.json();
+    const [magicValue] = eip1271Interface.decodeFunctionResult(
+      'isValidSignature',
+      result
+    );
+    return magicValue === EIP1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check an EIP-712 signature by the sender: recovered for an EOA, asked of
+ * the contract for a contract wallet. Returns the typed-data digest, or
+ * null when the data is malformed or the signature is not the sender's.
+ */
+const verifyTypedData = async (
+  typedData: TypedDataPayload,
+  signature: string,
+  senderAddress: string
+): Promise<string | null> => {
+  let digest: string;
+  try {
+    const { EIP712Domain: _domain, ...types } = typedData.types;
+    digest = TypedDataEncoder.hash(typedData.domain, types, typedData.message);
+  } catch {
+    return null;
+  }
+
+  try {
+    if (
+      recoverAddress(digest, signature).toLowerCase() ===
+      senderAddress.toLowerCase()
+    ) {
+      return digest;
+    }
+  } catch {
+    // not a recoverable signature; a contract wallet may still accept it
+  }
+
+  return (await isValidContractSignature(senderAddress, digest, signature))
+    ? digest
+    : null;
+};
+
+/**
+ * Replay verdict for a genuinely signed envelope: its validity window, then
+ * the organization's claim on the nonce. Null when the nonce store cannot
+ * be reached.
+ */
+const checkEnvelope = async (
+  organizationId: string,
+  envelope: MessageEnvelope,
+  messageHash: string
+): Promise<EnvelopeStatus | null> => {
+  const windowStatus = checkEnvelopeWindow(envelope);
+  if (windowStatus !== 'fresh') {
+    return windowStatus;
+  }
+
+  const { data, error } = await supabase.rpc('claim_message_nonce', {
+    org_id: organizationId,
+    message_nonce: envelope.nonce,
+    content_hash: messageHash,
+    expires: new Date(envelope.expiresAt * 1000).toISOString(),
+  });
+  if (error) {
+    console.error('Nonce claim error:', error);
+    return null;
+  }
+
+  return data as EnvelopeStatus;
+};
+
+const ENVELOPE_ERRORS: Record<Exclude<EnvelopeStatus, 'fresh'>, string> = {
+  expired: 'Message has expired',
+  not_yet_valid: 'Message is dated in the future',
+  already_seen: 'Message was already verified once',
+  nonce_reused: 'Nonce was already used by a different message',
+};
+
+/**
+ * Answer for a message of the organization. A genuine signature on a
+ * message with an envelope is only valid the first time it is verified
+ * within the envelope's window.
+ */
+const respond = async (
+  organization: Organization,
+  signatureValid: boolean,
+  details: Record<string, unknown> & { message_hash: string },
+  envelope: MessageEnvelope | null
+) => {
+  const envelopeStatus =
+    signatureValid && envelope
+      ? await checkEnvelope(organization.id, envelope, details.message_hash)
+      : undefined;
+  if (envelopeStatus === null) {
+    return json({ error: 'Could not check the message for replay' }, 503);
+  }
+
+  return json({
+    is_valid:
+      signatureValid &&
+      (envelopeStatus === undefined || envelopeStatus === 'fresh'),
+    organization_id: organization.id,
+    organization_name: organization.name,
+    verification_details: {
+      ...details,
+      ...(envelope &&
+        envelopeStatus && {
+          envelope: {
+            nonce: envelope.nonce,
+            issued_at: envelope.issuedAt,
+            expires_at: envelope.expiresAt,
+            status: envelopeStatus,
+          },
+        }),
+      ...(envelopeStatus &&
+        envelopeStatus !== 'fresh' && {
+          error: ENVELOPE_ERRORS[envelopeStatus],
+        }),
+    },
+  });
+};
+
+/**
+ * Check an EIP-712 message from an organization wallet and claim its
+ * envelope nonce
+ */
+const respondToTypedData = async (
+  typedData: TypedDataPayload,
+  signature: string | undefined,
+  senderAddress: string | undefined
+) => {
+  if (!typedData?.domain || !typedData.types || !typedData.message) {
+    return json({ error: 'typed_data needs domain, types and message' }, 400);
+  }
+  if (!signature || !senderAddress) {
+    return json({ error: 'signature and sender_addr are required' }, 400);
+  }
+
+  const owner = await findOrganization(senderAddress);
+  if (!owner) {
+    return json({
+      is_valid: false,
+      organization_id: null,
+      organization_name: null,
+      verification_details: { error: 'Organization not found or not verified' },
+    });
+  }
+
+  const digest = await verifyTypedData(typedData, signature, senderAddress);
+  return respond(
+    owner.organization,
+    digest !== null,
+    {
+      verification_method: 'edge_function',
+      scheme: 'eip712',
+      message_hash: (digest ?? '').slice(2),
+      verified_at: Math.floor(Date.now() / 1000),
+      ...(!digest && { error: 'Signature does not match the sender' }),
+    },
+    envelopeFromTypedData(typedData.message)
+  );
+};
+
+/**
+ * Check an M-of-N policy: each signature must come from a distinct active
+ * wallet of the organization, and at least `threshold` wallets must sign
+ */
+const verifyThreshold = (
+  message: string,
+  signatures: string[],
+  wallets: Wallet[],
+  threshold: number
+) => {
+  const signers = new Map<string, KeyMatch>();
+  let unmatched = 0;
+
+  for (const signature of signatures) {
+    const match = matchWallet(message, signature, wallets);
+    if (match) {
+      signers.set(match.signer.toLowerCase(), match);
+    } else {
+      unmatched++;
+    }
+  }
+
+  const thresholdMet = signers.size >= threshold;
+  return {
+    thresholdMet,
+    details: {
+      signers: Array.from(signers.values()).map((match) => ({
+        wallet_address: match.signer,
+        wallet_type: match.wallet_type,
+        algorithm: match.algorithm,
+        scheme: match.scheme,
+      })),
+      signature_count: signatures.length,
+      unmatched_signatures: unmatched,
+      required_signatures: threshold,
+      threshold_met: thresholdMet,
+      ...(!thresholdMet && {
+        error: `${signers.size} of ${threshold} required wallets signed`,
+      }),
+    },
+  };
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let body: VerifyRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+  if (!body || typeof body !== 'object') {
+    return json({ error: 'Request body must be a JSON object' }, 400);
+  }
+
+  const { sender_addr, signed_at } = body;
+  const isOptionalString = (value: unknown) =>
+    value === undefined || value === null || typeof value === 'string';
+  if (
+    !isOptionalString(body.message_content) ||
+    !isOptionalString(sender_addr) ||
+    !isOptionalString(body.signature) ||
+    !isOptionalString(signed_at) ||
+    (body.signatures !== undefined &&
+      !(
+        Array.isArray(body.signatures) &&
+        body.signatures.every((sig) => typeof sig === 'string')
+      ))
+  ) {
+    return json(
+      {
+        error:
+          'message_content, sender_addr, signed_at and signatures must be strings',
+      },
+      400
+    );
+  }
+  if (
+    body.key_id !== undefined &&
+    !(typeof body.key_id === 'string' && /^[0-9a-fA-F]{8}$/.test(body.key_id))
+  ) {
+    return json({ error: 'key_id must be 8 hex characters' }, 400);
+  }
+  if (body.typed_data !== undefined) {
+    return respondToTypedData(
+      body.typed_data,
+      body.signature,
+      body.sender_addr
+    );
+  }
+  const keyId = body.key_id?.toLowerCase();
+  const canonicalizationVersion =
+    body.canonicalization_version ?? CURRENT_CANONICALIZATION_VERSION;
+  if (!isCanonicalizationVersion(canonicalizationVersion)) {
+    return json({ error: 'Unsupported canonicalization_version' }, 400);
+  }
+  // Signatures and the stored hash cover the canonical form of the content
+  const message_content =
+    body.message_content &&
+    canonicalizeMessage(body.message_content, canonicalizationVersion);
+  const signatures = body.signatures?.length
+    ? body.signatures
+    : body.signature
+    ? [body.signature]
+    : [];
+  if (!message_content || signatures.length === 0 || !sender_addr) {
+    return json(
+      { error: 'message_content, signature and sender_addr are required' },
+      400
+    );
+  }
+
+  const signedAt = signed_at ? new Date(signed_at) : new Date();
+  if (Number.isNaN(signedAt.getTime())) {
+    return json({ error: 'signed_at must be an ISO 8601 timestamp' }, 400);
+  }
+
+  const owner = await findOrganization(sender_addr);
+  if (!owner) {
+    return json({
+      is_valid: false,
+      organization_id: null,
+      organization_name: null,
+      verification_details: { error: 'Organization not found or not verified' },
+    });
+  }
+
+  const { organization, wallets } = owner;
+  const baseDetails = {
+    verification_method: 'edge_function',
+    message_hash: sha256(toUtf8Bytes(message_content)).slice(2),
+    canonicalization_version: canonicalizationVersion,
+    signed_at: signedAt.toISOString(),
+    verified_at: Math.floor(Date.now() / 1000),
+  };
+
+  // Organizations requiring several signers only accept wallet signatures
+  const threshold = Math.max(organization.signature_threshold || 1, 1);
+  if (threshold > 1 || signatures.length > 1) {
+    const { thresholdMet, details } = verifyThreshold(
+      message_content,
+      signatures,
+      wallets,
+      threshold
+    );
+    return respond(
+      organization,
+      thresholdMet,
+      { ...baseDetails, ...details },
+      parseEnvelope(message_content)
+    );
+  }
+
+  const [signature] = signatures;
+  let keys = await loadKeys(organization);
+  let signingWallets = wallets;
+  if (keyId) {
+    keys = keys.filter((key) => sigTextKeyId(key.public_key) === keyId);
+    signingWallets = wallets.filter(
+      (wallet) => sigTextKeyId(wallet.wallet_address) === keyId
+    );
+    if (keys.length === 0 && signingWallets.length === 0) {
+      return json({
+        is_valid: false,
+        organization_id: organization.id,
+        organization_name: organization.name,
+        verification_details: {
+          ...baseDetails,
+          key_id: keyId,
+          error: `No key of ${organization.name} has key id ${keyId}`,
+        },
+      });
+    }
+  }
+  const match = matchKey(
+    message_content,
+    signature,
+    signingWallets,
+    keys,
+    signedAt
+  );
+
+  const keyError =
+    match?.key_status === 'revoked'
+      ? `Signed with a revoked key (${
+          match.revocation_reason || 'no reason given'
+        })`
+      : match?.key_status === 'outside_validity_window'
+      ? 'Signed with a key that was not valid at the signing time'
+      : undefined;
+
+  const verificationDetails = {
+    ...baseDetails,
+    ...(keyId && { key_id: keyId }),
+    signature_length: signature.length,
+    ...(match || { error: 'Signature does not match any organization key' }),
+    ...(keyError && { error: keyError }),
+  };
+
+  return respond(
+    organization,
+    match?.key_status === 'valid',
+    verificationDetails,
+    parseEnvelope(message_content)
+  );
+});
@@ -0,0 +1,43 @@
+/*
+  # Move signature verification to the verify-message edge function
+
+  1. Changes
+    - `verify_message_signature` no longer accepts signatures by format alone.
+      It still resolves the organization but always reports the signature as
+      unverified, pointing callers at the `verify-message` edge function,
+      which performs real secp256k1 and Ed25519 verification against the
+      organization's `public_key` and wallets.
+*/
+
+CREATE OR REPLACE FUNCTION verify_message_signature(
+  message_content text,
+  signature text,
+  sender_addr text
+)
+RETURNS TABLE (
+  is_valid boolean,
+  organization_id uuid,
+  organization_name text,
+  verification_details jsonb
+) AS $$
+DECLARE
+  org_record RECORD;
+BEGIN
+  SELECT INTO org_record *
+  FROM get_organization_by_wallet(sender_addr)
+  WHERE verification_status = 'verified'
+  LIMIT 1;
+
+  IF org_record.id IS NULL THEN
+    RETURN QUERY SELECT false, NULL::uuid, NULL::text, '{"error": "Organization not found or not verified"}'::jsonb;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT false, org_record.id, org_record.name,
+    jsonb_build_object(
+      'message_hash', encode(digest(message_content, 'sha256'), 'hex'),
+      'verification_method', 'supabase_function',
+      'error', 'Signatures are verified by the verify-message edge function'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
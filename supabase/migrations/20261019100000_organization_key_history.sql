@@ -0,0 +1,196 @@
+/*
+  # Organization key history, rotation and revocation
+
+  1. New Tables
+    - `organization_keys`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `public_key` (text, hex or base64 key material)
+      - `valid_from` (timestamp, start of the validity window)
+      - `valid_until` (timestamp, end of the window; null while current)
+      - `revoked_at` (timestamp, set when the key is revoked)
+      - `revocation_reason` (text, e.g. 'key_compromise', 'superseded')
+      - `successor_key_id` (uuid, the key that replaced this one)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `rotate_organization_key` closes the current key's window, adds the new
+      key as its successor and mirrors it into `organizations.public_key`.
+      An organization without an open key row first gets its current
+      `public_key` recorded, valid from its creation.
+    - `revoke_organization_key` marks a key as revoked with a reason. The
+      verifier rejects every signature of a revoked key unless the reason is
+      'superseded', since a leaked key can sign any claimed time.
+    - Organization creators can only read their keys; every change goes
+      through these functions so a revocation cannot be undone or a
+      validity window moved
+
+  3. Triggers
+    - New organizations get their `public_key` as their first key
+    - `organizations.public_key` can only change through
+      `rotate_organization_key`, so the history never misses a key
+
+  4. Data
+    - Every existing `organizations.public_key` becomes the organization's
+      first key, valid from the organization's creation
+*/
+
+CREATE TABLE IF NOT EXISTS organization_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  public_key text NOT NULL,
+  valid_from timestamptz NOT NULL DEFAULT now(),
+  valid_until timestamptz,
+  revoked_at timestamptz,
+  revocation_reason text,
+  successor_key_id uuid REFERENCES organization_keys(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT organization_keys_unique UNIQUE (organization_id, public_key),
+  CONSTRAINT organization_keys_window CHECK (valid_until IS NULL OR valid_until > valid_from)
+);
+
+ALTER TABLE organization_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view keys of verified organizations"
+  ON organization_keys
+  FOR SELECT
+  TO public
+  USING (
+    EXISTS (
+      SELECT 1 FROM organizations
+      WHERE id = organization_keys.organization_id
+      AND verification_status = 'verified'
+    )
+  );
+
+CREATE POLICY "Organization creators can view their keys"
+  ON organization_keys
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organizations
+      WHERE id = organization_keys.organization_id
+      AND created_by = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_organization_keys_org_id ON organization_keys(organization_id);
+
+INSERT INTO organization_keys (organization_id, public_key, valid_from)
+SELECT id, public_key, created_at
+FROM organizations
+ON CONFLICT (organization_id, public_key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION record_initial_organization_key()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO organization_keys (organization_id, public_key, valid_from)
+  VALUES (NEW.id, NEW.public_key, COALESCE(NEW.created_at, now()))
+  ON CONFLICT (organization_id, public_key) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER organizations_initial_key
+  AFTER INSERT ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_initial_organization_key();
+
+CREATE OR REPLACE FUNCTION guard_organization_public_key()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.public_key IS DISTINCT FROM OLD.public_key
+    AND current_setting('app.rotating_organization_key', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Use rotate_organization_key to change an organization key';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER organizations_public_key_guard
+  BEFORE UPDATE OF public_key ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_organization_public_key();
+
+CREATE OR REPLACE FUNCTION rotate_organization_key(
+  org_id uuid,
+  new_public_key text
+)
+RETURNS organization_keys AS $$
+DECLARE
+  new_key organization_keys;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM organizations WHERE id = org_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the organization creator can rotate its key';
+  END IF;
+
+  -- Keep the outgoing key verifiable for messages signed before now
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_keys
+    WHERE organization_id = org_id AND valid_until IS NULL
+  ) THEN
+    INSERT INTO organization_keys (organization_id, public_key, valid_from)
+    SELECT id, public_key, created_at
+    FROM organizations
+    WHERE id = org_id
+    ON CONFLICT (organization_id, public_key) DO NOTHING;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_keys
+    WHERE organization_id = org_id AND public_key = new_public_key
+  ) THEN
+    RAISE EXCEPTION 'This key is the current or a previous key of the organization; rotate to a new key';
+  END IF;
+
+  INSERT INTO organization_keys (organization_id, public_key, valid_from)
+  VALUES (org_id, new_public_key, now())
+  RETURNING * INTO new_key;
+
+  UPDATE organization_keys
+  SET valid_until = new_key.valid_from,
+      successor_key_id = new_key.id
+  WHERE organization_id = org_id
+    AND id <> new_key.id
+    AND valid_until IS NULL;
+
+  PERFORM set_config('app.rotating_organization_key', 'on', true);
+  UPDATE organizations SET public_key = new_public_key WHERE id = org_id;
+  PERFORM set_config('app.rotating_organization_key', 'off', true);
+
+  RETURN new_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION revoke_organization_key(
+  key_id uuid,
+  reason text
+)
+RETURNS organization_keys AS $$
+DECLARE
+  revoked_key organization_keys;
+BEGIN
+  UPDATE organization_keys k
+  SET revoked_at = now(),
+      revocation_reason = reason,
+      valid_until = COALESCE(k.valid_until, now())
+  FROM organizations o
+  WHERE k.id = key_id
+    AND o.id = k.organization_id
+    AND o.created_by = auth.uid()
+  RETURNING k.* INTO revoked_key;
+
+  IF revoked_key.id IS NULL THEN
+    RAISE EXCEPTION 'Key not found or not owned by the caller';
+  END IF;
+
+  RETURN revoked_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,67 @@
+/*
+  # Message nonces for replay protection
+
+  1. New Tables
+    - `message_nonces`
+      - `organization_id` (uuid, the organization whose signature used it)
+      - `nonce` (text, from the message's signed envelope)
+      - `message_hash` (text, SHA-256 of the message content)
+      - `expires_at` (timestamp, envelope expiry; rows can be purged after it)
+      - `first_seen_at` (timestamp)
+
+  2. Functions
+    - `claim_message_nonce` records a nonce and returns the message's replay
+      verdict: 'fresh' the first time, 'already_seen' when the same message
+      comes back, 'nonce_reused' when the nonce turns up on other content
+
+  3. Security
+    - Only the service role may claim nonces. The verify-message edge
+      function claims one after it has verified the message's signature, so
+      nobody can claim a nonce they read in someone else's message first.
+*/
+
+CREATE TABLE IF NOT EXISTS message_nonces (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  nonce text NOT NULL,
+  message_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  first_seen_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (organization_id, nonce)
+);
+
+ALTER TABLE message_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_message_nonces_expires_at ON message_nonces(expires_at);
+
+CREATE OR REPLACE FUNCTION claim_message_nonce(
+  org_id uuid,
+  message_nonce text,
+  content_hash text,
+  expires timestamptz
+)
+RETURNS text AS $$
+DECLARE
+  claimed_hash text;
+BEGIN
+  INSERT INTO message_nonces (organization_id, nonce, message_hash, expires_at)
+  VALUES (org_id, message_nonce, content_hash, expires)
+  ON CONFLICT (organization_id, nonce) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN 'fresh';
+  END IF;
+
+  SELECT message_hash INTO claimed_hash
+  FROM message_nonces
+  WHERE organization_id = org_id AND nonce = message_nonce;
+
+  RETURN CASE
+    WHEN claimed_hash = content_hash THEN 'already_seen'
+    ELSE 'nonce_reused'
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_message_nonce(uuid, text, text, timestamptz) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_message_nonce(uuid, text, text, timestamptz) TO service_role;
@@ -0,0 +1,15 @@
+/*
+  # M-of-N signing policy per organization
+
+  1. Changes
+    - `organizations.signature_threshold` (integer, default 1): how many
+      distinct active wallets of the organization must sign a message for it
+      to verify. With a threshold above 1 only wallet signatures count,
+      not the organization's `public_key`.
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS signature_threshold integer NOT NULL DEFAULT 1;
+
+ALTER TABLE organizations
+  ADD CONSTRAINT organizations_signature_threshold_positive CHECK (signature_threshold >= 1);
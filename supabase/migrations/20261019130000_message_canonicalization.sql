@@ -0,0 +1,16 @@
+/*
+  # Record the canonicalization spec of verified messages
+
+  1. Changes
+    - `verified_messages.canonicalization_version` (smallint): version of the
+      content canonicalization spec (see lib/canonical.ts) that was applied
+      before hashing and verifying the message. Null for messages verified
+      before the spec was versioned.
+*/
+
+ALTER TABLE verified_messages
+  ADD COLUMN IF NOT EXISTS canonicalization_version smallint;
+
+ALTER TABLE verified_messages
+  ADD CONSTRAINT verified_messages_canonicalization_version_known
+  CHECK (canonicalization_version IS NULL OR canonicalization_version IN (0, 1));
@@ -0,0 +1,208 @@
+/*
+  # SMS sender IDs per organization
+
+  1. New Tables
+    - `organization_sender_ids`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `sender_id` (text, normalized: E.164 phone number, short code digits
+        or upper-case alphanumeric sender ID)
+      - `kind` (text, 'phone', 'short_code' or 'alphanumeric')
+      - `verification_status` (text, 'pending', 'verified' or 'revoked')
+      - `challenge_hash` (text, SHA-256 of the outstanding challenge code)
+      - `challenge_expires_at` (timestamp)
+      - `challenge_attempts` (integer, failed confirmations of the code)
+      - `verified_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Ownership challenge
+    - `request_sender_id_challenge` (organization creator) issues a one-time
+      code, valid for 30 minutes. The organization sends "VERIFY <code>" from
+      the sender ID to the platform's inbound number.
+    - `confirm_sender_id_challenge` (service role, called by the
+      `sms-inbound` edge function with the sender the carrier reported)
+      marks the sender ID verified. A verified sender ID belongs to one
+      organization only.
+
+  3. Data
+    - Phone numbers kept in `organizations.metadata->>'phone'` are copied in
+      as pending sender IDs; they resolve once their challenge is confirmed.
+      Only numbers already written in international form (leading +) are
+      copied, since a national number's calling code cannot be known here.
+*/
+
+CREATE TABLE IF NOT EXISTS organization_sender_ids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  sender_id text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('phone', 'short_code', 'alphanumeric')),
+  verification_status text NOT NULL DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'revoked')),
+  challenge_hash text,
+  challenge_expires_at timestamptz,
+  challenge_attempts integer NOT NULL DEFAULT 0,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT organization_sender_ids_unique UNIQUE (organization_id, kind, sender_id),
+  CONSTRAINT organization_sender_ids_format CHECK (
+    (kind = 'phone' AND sender_id ~ '^\+[1-9][0-9]{6,14}$')
+    OR (kind = 'short_code' AND sender_id ~ '^[0-9]{3,6}$')
+    OR (kind = 'alphanumeric' AND sender_id ~ '^[A-Z0-9 .&_-]{1,11}$' AND sender_id ~ '[A-Z]')
+  )
+);
+
+ALTER TABLE organization_sender_ids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view verified sender IDs of verified organizations"
+  ON organization_sender_ids
+  FOR SELECT
+  TO public
+  USING (
+    verification_status = 'verified'
+    AND EXISTS (
+      SELECT 1 FROM organizations
+      WHERE id = organization_sender_ids.organization_id
+      AND verification_status = 'verified'
+    )
+  );
+
+CREATE POLICY "Organization creators can view their sender IDs"
+  ON organization_sender_ids
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organizations
+      WHERE id = organization_sender_ids.organization_id
+      AND created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organization creators can remove their sender IDs"
+  ON organization_sender_ids
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organizations
+      WHERE id = organization_sender_ids.organization_id
+      AND created_by = auth.uid()
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_sender_ids_verified
+  ON organization_sender_ids(kind, sender_id)
+  WHERE verification_status = 'verified';
+
+CREATE INDEX IF NOT EXISTS idx_organization_sender_ids_org_id ON organization_sender_ids(organization_id);
+
+INSERT INTO organization_sender_ids (organization_id, sender_id, kind)
+SELECT id, '+' || regexp_replace(metadata->>'phone', '[^0-9]', '', 'g'), 'phone'
+FROM organizations
+WHERE metadata->>'phone' ~ '^\s*\+'
+  AND '+' || regexp_replace(metadata->>'phone', '[^0-9]', '', 'g') ~ '^\+[1-9][0-9]{6,14}$'
+ON CONFLICT (organization_id, kind, sender_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION request_sender_id_challenge(
+  org_id uuid,
+  sender text,
+  sender_kind text
+)
+RETURNS jsonb AS $$
+DECLARE
+  challenge_code text;
+  entry organization_sender_ids;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM organizations WHERE id = org_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the organization creator can register sender IDs';
+  END IF;
+
+  challenge_code := lpad(
+    (('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint % 1000000)::text,
+    6,
+    '0'
+  );
+
+  INSERT INTO organization_sender_ids (
+    organization_id, sender_id, kind, challenge_hash, challenge_expires_at
+  )
+  VALUES (
+    org_id, sender, sender_kind,
+    encode(digest(challenge_code, 'sha256'), 'hex'),
+    now() + interval '30 minutes'
+  )
+  ON CONFLICT (organization_id, kind, sender_id) DO UPDATE
+  SET verification_status = CASE
+        WHEN organization_sender_ids.verification_status = 'verified' THEN 'verified'
+        ELSE 'pending'
+      END,
+      challenge_hash = EXCLUDED.challenge_hash,
+      challenge_expires_at = EXCLUDED.challenge_expires_at,
+      challenge_attempts = 0
+  RETURNING * INTO entry;
+
+  RETURN jsonb_build_object(
+    'id', entry.id,
+    'sender_id', entry.sender_id,
+    'kind', entry.kind,
+    'verification_status', entry.verification_status,
+    'challenge_code', challenge_code,
+    'challenge_expires_at', entry.challenge_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION confirm_sender_id_challenge(
+  sender text,
+  sender_kind text,
+  code text
+)
+RETURNS boolean AS $$
+DECLARE
+  entry organization_sender_ids;
+BEGIN
+  SELECT * INTO entry
+  FROM organization_sender_ids
+  WHERE sender_id = sender
+    AND kind = sender_kind
+    AND verification_status = 'pending'
+    AND challenge_expires_at > now()
+    AND challenge_attempts < 5
+    AND challenge_hash = encode(digest(code, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF entry.id IS NULL THEN
+    UPDATE organization_sender_ids
+    SET challenge_attempts = challenge_attempts + 1
+    WHERE sender_id = sender
+      AND kind = sender_kind
+      AND verification_status = 'pending'
+      AND challenge_expires_at > now();
+    RETURN false;
+  END IF;
+
+  -- A sender ID moves to the organization that proved it most recently
+  UPDATE organization_sender_ids
+  SET verification_status = 'revoked'
+  WHERE sender_id = sender
+    AND kind = sender_kind
+    AND verification_status = 'verified'
+    AND id <> entry.id;
+
+  UPDATE organization_sender_ids
+  SET verification_status = 'verified',
+      verified_at = now(),
+      challenge_hash = NULL,
+      challenge_expires_at = NULL,
+      challenge_attempts = 0
+  WHERE id = entry.id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION confirm_sender_id_challenge(text, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_sender_id_challenge(text, text, text) TO service_role;
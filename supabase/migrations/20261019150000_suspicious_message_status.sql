@@ -0,0 +1,12 @@
+/*
+  # Keep spoofed-sender messages apart from verified ones
+
+  1. Changes
+    - `verification_status` gains 'suspicious': the message carries a valid
+      organization signature, but the SMS came from a sender ID another
+      organization verified, or one the signer has not verified although it
+      has verified others. Suspicious messages are not covered by the public
+      "verified messages" policy.
+*/
+
+ALTER TYPE verification_status ADD VALUE IF NOT EXISTS 'suspicious';
@@ -0,0 +1,16 @@
+/*
+  # Organization DIDs
+
+  1. Changes
+    - `organizations.did` (text, optional): the DID the organization signs
+      `[DID:...#SIG:...]` messages with. The app resolves the DID document
+      and checks the signature against its authentication and assertion
+      keys; this column ties the DID to the organization.
+    - A DID belongs to at most one organization
+*/
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS did text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_did
+  ON organizations(did)
+  WHERE did IS NOT NULL;
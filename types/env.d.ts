@@ -12,6 +12,8 @@ declare global {
       EXPO_PUBLIC_NODELY_API_KEY: string;
       EXPO_PUBLIC_ALGORAND_NETWORK: string;
       EXPO_PUBLIC_ALGORAND_API_URL: string;
+      EXPO_PUBLIC_ALGORAND_INDEXER_URL: string;
+      EXPO_PUBLIC_SMS_INBOUND_NUMBER: string;
     }
   }
 }
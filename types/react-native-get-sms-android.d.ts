@@ -0,0 +1,41 @@
+declare module 'react-native-get-sms-android' {
+  // Filter accepted by SmsAndroid.list. Only one of read, _id, thread_id,
+  // address and body is applied (in that order of precedence); the date
+  // bounds, selection and paging combine with it.
+  export interface SmsListFilter {
+    box?: 'inbox' | 'sent' | 'draft' | 'outbox' | 'failed' | 'queued' | '';
+    read?: 0 | 1;
+    _id?: number;
+    thread_id?: number;
+    address?: string;
+    body?: string;
+    minDate?: number;
+    maxDate?: number;
+    indexFrom?: number;
+    maxCount?: number;
+    selection?: string;
+    sortOrder?: string;
+  }
+
+  export interface SmsAndroidMessage {
+    _id: number;
+    thread_id: number;
+    address: string;
+    body: string;
+    date: number;
+    date_sent: number;
+    read: 0 | 1;
+    type: number;
+    [column: string]: unknown;
+  }
+
+  const SmsAndroid: {
+    list(
+      filter: string,
+      fail: (error: string) => void,
+      success: (count: number, smsList: string) => void
+    ): void;
+  };
+
+  export default SmsAndroid;
+}